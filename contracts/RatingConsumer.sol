@@ -1,43 +1,36 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./access/RatingAccessControl.sol";
+import "./consumer/RatingConsumerStorage.sol";
+import "./interfaces/IMailbox.sol";
 import "./interfaces/IMessageRecipient.sol";
+import "./interfaces/IRatingConsumerAdmin.sol";
+import "./interfaces/IRatingListener.sol";
+import "./libraries/LtvTierLogic.sol";
+import "./libraries/RatingHistoryLogic.sol";
+import "./libraries/RatingMessage.sol";
+import "./libraries/ScoreAggregation.sol";
 
-contract RatingConsumer is Initializable, OwnableUpgradeable, IMessageRecipient {
+/**
+ * @dev State, events and errors live in RatingConsumerStorage. Initializers,
+ * timelocked changes and admin setters are implemented by RatingConsumerAdmin
+ * and reached through the forwarding functions at the bottom of this contract.
+ */
+contract RatingConsumer is
+    Initializable,
+    RatingAccessControl,
+    RatingConsumerStorage,
+    IMessageRecipient,
+    IRatingConsumerAdmin
+{
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
 
-    struct Rating {
-        uint8 score;
-        uint256 timestamp;
-        uint256 receivedAt;
-    }
-
-    // State Variables
-    address public mailbox;
-    uint256 public maxRatingAge;
-    uint256 public defaultLTV;
-
-    mapping(uint32 => bytes32) public authorizedSenders;  // sourceDomain => sender
-    mapping(address => Rating) public borrowerRatings;
-    mapping(bytes32 => bool) public processedMessages;
-
-    // Events
-    event RatingUpdated(address indexed borrower, uint8 score, uint256 timestamp, uint256 receivedAt);
-    event StaleRatingRejected(address indexed borrower, uint256 ratingTimestamp, uint256 currentTime);
-    event ReplayAttemptBlocked(bytes32 messageHash);
-    event AuthorizedSenderUpdated(uint32 indexed sourceDomain, bytes32 indexed sender);
-    event MailboxUpdated(address indexed newMailbox);
-    event MaxRatingAgeUpdated(uint256 newMaxAge);
-    event DefaultLTVUpdated(uint256 newDefaultLTV);
-
-    // Errors
-    error UnauthorizedMailbox();
-    error UnauthorizedSender();
-    error InvalidRatingScore();
-    error StaleRating();
-    error ReplayAttack();
-    error InvalidAddress();
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address public immutable adminModule;
 
     modifier onlyMailbox() {
         if (msg.sender != mailbox) revert UnauthorizedMailbox();
@@ -45,55 +38,357 @@ contract RatingConsumer is Initializable, OwnableUpgradeable, IMessageRecipient
     }
 
     /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
+    constructor(address _adminModule) {
+        if (_adminModule == address(0)) revert InvalidAddress();
+        adminModule = _adminModule;
         _disableInitializers();
     }
 
-    function initialize(address _mailbox) public initializer {
-        if (_mailbox == address(0)) revert InvalidAddress();
-        __Ownable_init(msg.sender);
-
-        mailbox = _mailbox;
-        maxRatingAge = 24 hours;
-        defaultLTV = 40;
-    }
-
     /**
      * @notice Handle incoming cross-chain message from Hyperlane
-     * @dev Validates sender, prevents replay, rejects stale data
+     * @dev Validates sender and message version, rejects replayed nonces, then
+     * dispatches on the message type. Relayers may deliver out of order, so
+     * ordering is enforced per borrower rather than per message. While paused,
+     * messages are rejected or queued according to pausedMessagePolicy. Only the
+     * current RatingMessage version is accepted.
      */
     function handle(
         uint32 _origin,
         bytes32 _sender,
         bytes calldata _body
     ) external payable override onlyMailbox {
-        // Verify authorized sender for source domain
-        bytes32 authorizedSender = authorizedSenders[_origin];
-        if (authorizedSender == bytes32(0) || _sender != authorizedSender) {
-            revert UnauthorizedSender();
-        }
+        if (!isAuthorizedSender(_origin, _sender)) revert UnauthorizedSender();
+
+        if (_body.length < RatingMessage.HEADER_LENGTH) revert MalformedMessage();
 
-        (address borrower, uint8 score, uint256 timestamp) = abi.decode(_body, (address, uint8, uint256));
+        uint8 messageVersion = RatingMessage.version(_body);
+        if (!RatingMessage.isSupportedVersion(messageVersion)) revert UnsupportedMessageVersion(messageVersion);
 
-        // Replay protection
-        bytes32 messageHash = keccak256(abi.encode(borrower, score, timestamp, _origin));
-        if (processedMessages[messageHash]) {
-            emit ReplayAttemptBlocked(messageHash);
+        // Replay protection: each nonce from a sender is accepted once
+        uint256 nonce = RatingMessage.nonce(_body);
+        if (processedNonces[_origin][_sender][nonce]) {
+            emit ReplayAttemptBlocked(keccak256(abi.encode(_origin, _sender, nonce)));
             revert ReplayAttack();
         }
-        processedMessages[messageHash] = true;
+        processedNonces[_origin][_sender][nonce] = true;
+        if (nonce > lastNonces[_origin][_sender]) lastNonces[_origin][_sender] = nonce;
+
+        if (paused()) {
+            if (pausedMessagePolicy == PausedMessagePolicy.REJECT) revert EnforcedPause();
+            queuedMessages.push(QueuedMessage(_origin, _sender, _body));
+            emit MessageQueued(queuedMessages.length - 1, _origin, nonce);
+            return;
+        }
+
+        _processMessage(_origin, _sender, nonce, _body);
+    }
+
+    /**
+     * @notice Apply messages queued while paused, oldest first
+     * @dev A message that fails (e.g. went stale while queued or cannot be decoded)
+     * is dropped with QueuedMessageFailed. A failure that used up all the gas
+     * forwarded to it means the call ran out of gas, so the message stays queued and
+     * processing stops, as it does once gasleft() falls below MIN_QUEUED_MESSAGE_GAS
+     * or the circuit breaker trips again. Use discardQueuedMessages to drop messages
+     * that should not be applied at all.
+     * @param maxCount Maximum number of messages to process
+     * @return processed Number of messages taken off the queue
+     */
+    function processQueuedMessages(uint256 maxCount)
+        external
+        onlyRole(PAUSER_ROLE)
+        whenNotPaused
+        returns (uint256 processed)
+    {
+        while (processed < maxCount && queueHead < queuedMessages.length && !paused()) {
+            if (gasleft() < MIN_QUEUED_MESSAGE_GAS) break;
+
+            uint256 index = queueHead;
+            QueuedMessage memory queued = queuedMessages[index];
+
+            uint256 gasBefore = gasleft();
+            try this.applyQueuedMessage(queued.origin, queued.sender, queued.body) {
+                emit QueuedMessageProcessed(index);
+            } catch (bytes memory reason) {
+                // Each call keeps back only 1/64 of its gas, so ending with less than
+                // 1/16 of gasBefore means the call, or a library call it made, ran out of gas
+                if (gasleft() < gasBefore / 16) break;
+                emit QueuedMessageFailed(index, reason);
+            }
+
+            delete queuedMessages[index];
+            queueHead++;
+            processed++;
+        }
+    }
+
+    /**
+     * @dev External so queued bodies are decoded from calldata and can fail in
+     * isolation; only callable by processQueuedMessages
+     */
+    function applyQueuedMessage(uint32 _origin, bytes32 _sender, bytes calldata _body) external {
+        if (msg.sender != address(this)) revert UnauthorizedCaller();
+        _processMessage(_origin, _sender, RatingMessage.nonce(_body), _body);
+    }
+
+    /**
+     * @notice Ask the source chain for a new rating of `borrower`
+     * @dev Permissionless so borrowers and keepers can chase stale ratings. The
+     * request is dispatched to the RatingSender set with setRefreshRoute, which
+     * records it for the scoring service. Any excess `msg.value` over
+     * quoteRatingRefresh is refunded.
+     * @return messageId Hyperlane message ID of the request
+     */
+    function requestRatingRefresh(address borrower)
+        external
+        payable
+        whenNotPaused
+        returns (bytes32 messageId)
+    {
+        if (borrower == address(0)) revert InvalidAddress();
+        if (refreshRecipient == bytes32(0)) revert RefreshNotConfigured();
+
+        uint256 nonce = ++refreshNonce;
+        bytes memory body = RatingMessage.encodeRefreshRequest(nonce, borrower, msg.sender);
+        uint256 fee = IMailbox(mailbox).quoteDispatch(refreshDomain, refreshRecipient, body);
+        if (msg.value < fee) revert InsufficientFee(fee, msg.value);
+
+        messageId = IMailbox(mailbox).dispatch{value: fee}(refreshDomain, refreshRecipient, body);
+        emit RatingRefreshRequested(borrower, msg.sender, nonce, messageId);
+
+        uint256 excess = msg.value - fee;
+        if (excess > 0) {
+            (bool success, ) = msg.sender.call{value: excess}("");
+            if (!success) revert TransferFailed();
+        }
+    }
+
+    /**
+     * @notice Fee to pass to requestRatingRefresh when called by the caller of this view
+     */
+    function quoteRatingRefresh(address borrower) external view returns (uint256) {
+        if (refreshRecipient == bytes32(0)) revert RefreshNotConfigured();
+        bytes memory body = RatingMessage.encodeRefreshRequest(refreshNonce + 1, borrower, msg.sender);
+        return IMailbox(mailbox).quoteDispatch(refreshDomain, refreshRecipient, body);
+    }
+
+    function _processMessage(uint32 _origin, bytes32 _sender, uint256 nonce, bytes calldata _body) internal {
+        // Nonces only order messages from the same sender on the same origin
+        bytes32 source = keccak256(abi.encode(_origin, _sender));
+        uint256 listenerGas = MAX_LISTENER_GAS_PER_MESSAGE;
+        uint8 messageType = RatingMessage.messageType(_body);
+        if (messageType == uint8(RatingMessage.MessageType.RATING)) {
+            (address borrower, uint8 score, uint256 timestamp, address rater, uint256 expiresAt) =
+                RatingMessage.decodeRating(_body);
+            _applyAndNotify(
+                borrower,
+                Rating(score, timestamp, block.timestamp, rater, expiresAt, bytes32(0), bytes24(0), 0),
+                source,
+                nonce,
+                listenerGas
+            );
+        } else if (messageType == uint8(RatingMessage.MessageType.BATCH)) {
+            (address[] memory borrowers, uint8[] memory scores, uint256 timestamp, address rater, uint256 expiresAt) =
+                RatingMessage.decodeBatch(_body);
+            if (borrowers.length == 0 || borrowers.length != scores.length) revert MalformedBatch();
+
+            for (uint256 i = 0; i < borrowers.length; i++) {
+                listenerGas = _applyAndNotify(
+                    borrowers[i],
+                    Rating(scores[i], timestamp, block.timestamp, rater, expiresAt, bytes32(0), bytes24(0), 0),
+                    source,
+                    nonce,
+                    listenerGas
+                );
+            }
+            emit RatingBatchApplied(_origin, nonce, borrowers.length);
+        } else if (messageType == uint8(RatingMessage.MessageType.PRIVATE_RATING)) {
+            (
+                address borrower,
+                uint8 floorScore,
+                bytes32 commitment,
+                uint256 timestamp,
+                address rater,
+                uint256 expiresAt
+            ) = RatingMessage.decodePrivateRating(_body);
+            // The floor never exceeds the exact score, so tier changes in flight only make it conservative
+            _applyAndNotify(
+                borrower,
+                Rating(floorScore, timestamp, block.timestamp, rater, expiresAt, commitment, bytes24(0), 0),
+                source,
+                nonce,
+                listenerGas
+            );
+        } else if (messageType == uint8(RatingMessage.MessageType.REVOCATION)) {
+            (address borrower, uint256 timestamp, address rater, string memory reason) =
+                RatingMessage.decodeRevocation(_body);
+            (uint8 oldScore, bool wasValid) = _listenedScore(borrower);
+            if (timestamp > revokedAt[borrower]) {
+                revokedAt[borrower] = timestamp;
+                revocations[borrower] = Revocation(source, nonce, block.timestamp);
+            }
+            emit RatingRevoked(borrower, timestamp, rater, reason);
+            _notifyListeners(borrower, oldScore, wasValid, listenerGas);
+        } else {
+            revert UnsupportedMessageType(messageType);
+        }
+    }
+
+    /**
+     * @return Listener gas left for the rest of the message
+     */
+    function _applyAndNotify(
+        address borrower,
+        Rating memory rating,
+        bytes32 source,
+        uint256 nonce,
+        uint256 listenerGas
+    ) internal returns (uint256) {
+        (uint8 oldScore, bool wasValid) = _listenedScore(borrower);
+        _applyRating(borrower, rating, source, nonce);
+        return _notifyListeners(borrower, oldScore, wasValid, listenerGas);
+    }
+
+    /**
+     * @dev Effective score as reported to listeners (0 when invalid); skipped while
+     * nobody listens
+     */
+    function _listenedScore(address borrower) internal view returns (uint8 score, bool isValid) {
+        if (ratingListeners.length() == 0) return (0, false);
+        (score, isValid) = getEffectiveScore(borrower);
+        if (!isValid) score = 0;
+    }
+
+    /**
+     * @dev Call every listener if the effective score moved since `_listenedScore`.
+     * Each call gets LISTENER_GAS_LIMIT gas and failures are only reported, so a
+     * broken listener never blocks delivery. Calls are paid from `listenerGas`, the
+     * message's share of MAX_LISTENER_GAS_PER_MESSAGE; once it cannot cover another
+     * call the remaining listeners are skipped with RatingListenersSkipped.
+     * @return Listener gas left for the rest of the message
+     */
+    function _notifyListeners(address borrower, uint8 oldScore, bool wasValid, uint256 listenerGas)
+        internal
+        returns (uint256)
+    {
+        uint256 count = ratingListeners.length();
+        if (count == 0) return listenerGas;
+
+        (uint8 newScore, bool isValid) = _listenedScore(borrower);
+        if (newScore == oldScore && isValid == wasValid) return listenerGas;
+
+        uint256 newLtv = _borrowerLtv(borrower, ltvTiers);
+        bytes memory callData = abi.encodeCall(IRatingListener.onRatingUpdated, (borrower, oldScore, newScore, newLtv));
+        for (uint256 i = 0; i < count; i++) {
+            if (listenerGas < LISTENER_GAS_LIMIT) {
+                emit RatingListenersSkipped(borrower, count - i);
+                break;
+            }
+
+            address listener = ratingListeners.at(i);
+            uint256 gasBefore = gasleft();
+            (bool success, bytes memory reason) = _callListener(listener, callData);
+            uint256 gasUsed = gasBefore - gasleft();
+            listenerGas = gasUsed < listenerGas ? listenerGas - gasUsed : 0;
+
+            if (!success) emit RatingListenerFailed(listener, borrower, reason);
+        }
+        return listenerGas;
+    }
+
+    /**
+     * @dev Like a try/catch call, but copies at most MAX_LISTENER_REVERT_DATA bytes of
+     * revert data so a listener cannot make the consumer pay for a huge revert
+     */
+    function _callListener(address listener, bytes memory callData)
+        private
+        returns (bool success, bytes memory reason)
+    {
+        uint256 gasLimit = LISTENER_GAS_LIMIT;
+        uint256 maxReasonLength = MAX_LISTENER_REVERT_DATA;
+        assembly ("memory-safe") {
+            success := call(gasLimit, listener, 0, add(callData, 0x20), mload(callData), 0, 0)
+            if iszero(success) {
+                let length := returndatasize()
+                if gt(length, maxReasonLength) { length := maxReasonLength }
+                reason := mload(0x40)
+                mstore(reason, length)
+                returndatacopy(add(reason, 0x20), 0, length)
+                mstore(0x40, add(add(reason, 0x20), and(add(length, 0x1f), not(0x1f))))
+            }
+        }
+    }
+
+    /**
+     * @dev Ratings from aggregation raters are also kept per rater, ordered against
+     * that rater's own latest rating only, so a rating that lost the race for the
+     * borrower's latest slot still counts towards the aggregate. Ratings issued
+     * before the borrower's last revocation are ignored. Ratings issued in the
+     * same second are ordered by nonce when they come from the stored rating's
+     * source (origin and sender); from another source the later delivery wins.
+     */
+    function _applyRating(address borrower, Rating memory rating, bytes32 source, uint256 nonce) internal {
+        uint8 score = rating.score;
+        uint256 timestamp = rating.timestamp;
+        address rater = rating.rater;
 
         // Validate score
         if (score > 100) revert InvalidRatingScore();
 
         // Reject stale data
-        if (block.timestamp > timestamp + maxRatingAge) {
+        if (!_isFresh(rating)) {
             emit StaleRatingRejected(borrower, timestamp, block.timestamp);
             revert StaleRating();
         }
 
-        borrowerRatings[borrower] = Rating(score, timestamp, block.timestamp);
-        emit RatingUpdated(borrower, score, timestamp, block.timestamp);
+        // A rating issued before the borrower's last revocation stays revoked
+        if (_issuedBeforeRevocation(borrower, timestamp, source, nonce)) {
+            emit OutOfOrderRatingIgnored(borrower, score, timestamp, nonce, revokedAt[borrower]);
+            return;
+        }
+
+        bool aggregating = aggregationMode != AggregationMode.NONE;
+        rating.source = bytes24(source);
+        rating.nonce = uint64(nonce);
+
+        bool recordedForRater;
+        if (aggregationRaters.contains(rater)) {
+            Rating memory previousForRater = raterRatings[borrower][rater];
+            if (timestamp >= previousForRater.timestamp) {
+                if (aggregating && previousForRater.timestamp != 0) _trackScoreChange(previousForRater.score, score);
+                raterRatings[borrower][rater] = rating;
+                recordedForRater = true;
+                emit RaterRatingRecorded(borrower, rater, score, timestamp);
+            }
+        }
+
+        // Never let an older rating overwrite a newer one
+        Rating memory previous = borrowerRatings[borrower];
+        if (
+            timestamp < previous.timestamp ||
+            (timestamp == previous.timestamp && source == ratingSources[borrower] && nonce <= ratingNonces[borrower])
+        ) {
+            if (recordedForRater) return;
+            if (outOfOrderPolicy == OutOfOrderPolicy.REVERT) {
+                revert OutOfOrderRating(borrower, previous.timestamp, timestamp);
+            }
+            emit OutOfOrderRatingIgnored(borrower, score, timestamp, nonce, previous.timestamp);
+            return;
+        }
+
+        // While aggregating, score moves are tracked per rater above
+        if (!aggregating && previous.timestamp != 0) _trackScoreChange(previous.score, score);
+
+        // Ratings stored before history existed seed the buffer on first overwrite
+        if (previous.timestamp != 0 && ratingHistories[borrower].count == 0) {
+            RatingHistoryLogic.record(ratingHistories[borrower], previous, ratingHistoryDepth);
+        }
+
+        borrowerRatings[borrower] = rating;
+        ratingNonces[borrower] = nonce;
+        ratingSources[borrower] = source;
+        RatingHistoryLogic.record(ratingHistories[borrower], rating, ratingHistoryDepth);
+        emit RatingUpdated(borrower, score, timestamp, block.timestamp, rater);
     }
 
     /**
@@ -101,14 +396,101 @@ contract RatingConsumer is Initializable, OwnableUpgradeable, IMessageRecipient
      * @return LTV percentage (e.g., 75 = 75%)
      */
     function getBorrowerLTV(address borrower) external view returns (uint256) {
-        Rating memory rating = borrowerRatings[borrower];
+        return _borrowerLtv(borrower, ltvTiers);
+    }
+
+    /**
+     * @notice Get LTV for borrower against a specific collateral asset
+     * @dev Uses the asset curve when one is registered, otherwise the global tiers.
+     * A private rating only places the borrower in a global tier, so it prices
+     * defaultLTV on assets with their own curve.
+     * @return LTV percentage (e.g., 75 = 75%)
+     */
+    function getBorrowerLTV(address borrower, address asset) external view returns (uint256) {
+        if (!ltvAssets.contains(asset)) return _borrowerLtv(borrower, ltvTiers);
+        if (_pricesPrivateRating(borrower)) return defaultLTV;
+        return _borrowerLtv(borrower, assetLtvTiers[asset]);
+    }
+
+    /**
+     * @notice Get Aave-style risk parameters for a borrower, in basis points
+     * @dev Missing, stale or revoked ratings, or a paused consumer, return the defaults with isValid = false
+     */
+    function getBorrowerRiskParams(address borrower)
+        external
+        view
+        returns (uint256 ltvBps, uint256 liquidationThresholdBps, uint256 liquidationBonusBps, bool isValid)
+    {
+        uint8 score;
+        (score, isValid) = getEffectiveScore(borrower);
+        isValid = isValid && !paused();
+
+        LtvTier memory tier = isValid ? _riskParams(ltvTiers, score) : _defaultRiskParams();
+        return (tier.ltvBps, tier.liquidationThresholdBps, tier.liquidationBonusBps, isValid);
+    }
+
+    /**
+     * @notice Get the score LTV reads price a borrower at
+     * @dev The latest rating when aggregationMode is NONE, otherwise the median or
+     * minimum of the aggregation raters' fresh ratings
+     * @return score Effective score
+     * @return isValid False when the rating is missing, stale or revoked, or fewer
+     * than aggregationQuorum raters have a valid rating
+     */
+    function getEffectiveScore(address borrower) public view returns (uint8 score, bool isValid) {
+        if (aggregationMode == AggregationMode.NONE) {
+            Rating memory rating = borrowerRatings[borrower];
+            return (rating.score, _isValid(borrower, rating));
+        }
+
+        address[] memory raters = aggregationRaters.values();
+        uint8[] memory scores = new uint8[](raters.length);
+        uint256 count;
+        for (uint256 i = 0; i < raters.length; i++) {
+            Rating memory rating = raterRatings[borrower][raters[i]];
+            if (_isValid(borrower, rating)) scores[count++] = rating.score;
+        }
+        if (count < aggregationQuorum) return (0, false);
+
+        score = aggregationMode == AggregationMode.MEDIAN
+            ? ScoreAggregation.median(scores, count)
+            : ScoreAggregation.min(scores, count);
+        return (score, true);
+    }
+
+    /**
+     * @notice Get the contracts notified through IRatingListener
+     */
+    function getRatingListeners() external view returns (address[] memory) {
+        return ratingListeners.values();
+    }
+
+    /**
+     * @notice Get the raters whose ratings are aggregated
+     */
+    function getAggregationRaters() external view returns (address[] memory) {
+        return aggregationRaters.values();
+    }
 
-        if (rating.timestamp == 0) return defaultLTV;
-        if (block.timestamp > rating.timestamp + maxRatingAge) return defaultLTV;
+    /**
+     * @notice Get the configured score -> LTV tiers, highest threshold first
+     */
+    function getLtvTiers() external view returns (LtvTier[] memory) {
+        return ltvTiers;
+    }
+
+    /**
+     * @notice Get the tiers registered for an asset (empty when it uses the global tiers)
+     */
+    function getAssetLtvTiers(address asset) external view returns (LtvTier[] memory) {
+        return assetLtvTiers[asset];
+    }
 
-        if (rating.score >= 80) return 75;
-        if (rating.score >= 50) return 60;
-        return 40;
+    /**
+     * @notice Get every asset with a registered LTV curve
+     */
+    function getLtvAssets() external view returns (address[] memory) {
+        return ltvAssets.values();
     }
 
     function getBorrowerRating(address borrower)
@@ -120,34 +502,257 @@ contract RatingConsumer is Initializable, OwnableUpgradeable, IMessageRecipient
         score = rating.score;
         timestamp = rating.timestamp;
         receivedAt = rating.receivedAt;
-        isValid = (timestamp != 0) && (block.timestamp <= timestamp + maxRatingAge);
+        isValid = _isValid(borrower, rating);
+    }
+
+    /**
+     * @notice Get a page of a borrower's retained ratings, newest first
+     * @param offset Number of newer entries to skip
+     * @param limit Maximum number of entries to return
+     * @return ratings The requested entries
+     * @return total Number of entries currently retained
+     */
+    function getRatingHistory(address borrower, uint256 offset, uint256 limit)
+        external
+        view
+        returns (Rating[] memory ratings, uint256 total)
+    {
+        return RatingHistoryLogic.page(ratingHistories[borrower], ratingHistoryDepth, offset, limit);
+    }
+
+    /**
+     * @notice Get the rating that was in effect on this chain at a timestamp
+     * @dev Looks up the newest retained entry received at or before `timestamp`;
+     * `found` is false when that rating has already been evicted, and `revoked` is
+     * true when a revocation has covered it since
+     */
+    function getRatingAt(address borrower, uint256 timestamp)
+        external
+        view
+        returns (uint8 score, uint256 ratingTimestamp, uint256 receivedAt, bool found, address rater, bool revoked)
+    {
+        Rating memory rating;
+        (rating, found) = RatingHistoryLogic.at(ratingHistories[borrower], ratingHistoryDepth, timestamp);
+        revoked = found && _isRevoked(borrower, rating);
+        return (rating.score, rating.timestamp, rating.receivedAt, found, rating.rater, revoked);
+    }
+
+    /**
+     * @notice Number of messages waiting in the pause queue
+     */
+    function queuedMessageCount() external view returns (uint256) {
+        return queuedMessages.length - queueHead;
+    }
+
+    /**
+     * @notice Get a queued message by its index (as emitted in MessageQueued)
+     */
+    function getQueuedMessage(uint256 index)
+        external
+        view
+        returns (uint32 origin, bytes32 sender, bytes memory body)
+    {
+        QueuedMessage memory queued = queuedMessages[index];
+        return (queued.origin, queued.sender, queued.body);
+    }
+
+    /**
+     * @notice Whether a sender may deliver messages from a source domain right now
+     */
+    function isAuthorizedSender(uint32 _sourceDomain, bytes32 _sender) public view returns (bool) {
+        if (!senderSets[_sourceDomain].contains(_sender)) return false;
+        uint256 expiresAt = senderExpiries[_sourceDomain][_sender];
+        return expiresAt == 0 || block.timestamp < expiresAt;
+    }
+
+    /**
+     * @notice Get the senders registered for a source domain, including expired ones
+     * @return senders Registered senders
+     * @return expiries Matching expiry timestamps (zero => never expires)
+     */
+    function getAuthorizedSenders(uint32 _sourceDomain)
+        external
+        view
+        returns (bytes32[] memory senders, uint256[] memory expiries)
+    {
+        senders = senderSets[_sourceDomain].values();
+        expiries = new uint256[](senders.length);
+        for (uint256 i = 0; i < senders.length; i++) {
+            expiries[i] = senderExpiries[_sourceDomain][senders[i]];
+        }
+    }
+
+    /**
+     * @notice Get every pending timelocked change
+     */
+    function getPendingChanges() external view returns (bytes32[] memory ids, PendingChange[] memory changes) {
+        ids = pendingChangeIds.values();
+        changes = new PendingChange[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            changes[i] = pendingChanges[ids[i]];
+        }
+    }
+
+    function getPendingChange(bytes32 id) external view returns (PendingChange memory) {
+        if (!pendingChangeIds.contains(id)) revert ChangeNotFound(id);
+        return pendingChanges[id];
+    }
+
+
+    // Forwarded to RatingConsumerAdmin, see IRatingConsumerAdmin
+    /// @custom:oz-upgrades-unsafe-allow missing-initializer-call
+    function initialize(address) external { _delegateToAdmin(); }
+    function initializeV2(uint32[] calldata) external { _delegateToAdmin(); }
+    function proposeMaxRatingAge(uint256) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeDefaultLTV(uint256) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeAddAuthorizedSender(uint32, bytes32, uint256) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeRemoveAuthorizedSender(uint32, bytes32) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeMailbox(address) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeInterchainSecurityModule(address) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeChangeDelay(uint256) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeDefaultLiquidationParams(uint16, uint16) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeLtvTiers(LtvTier[] calldata) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeAssetLtvTiers(address, LtvTier[] calldata) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeRemoveAssetLtvTiers(address) external returns (bytes32) { _delegateToAdmin(); }
+    function proposeRatingAggregation(AggregationMode, address[] calldata, uint256)
+        external
+        returns (bytes32)
+    {
+        _delegateToAdmin();
+    }
+    function proposeCircuitBreaker(uint256, uint256, uint256) external returns (bytes32) { _delegateToAdmin(); }
+    function executeChange(bytes32) external { _delegateToAdmin(); }
+    function cancelChange(bytes32) external { _delegateToAdmin(); }
+    function discardQueuedMessages(uint256) external returns (uint256) { _delegateToAdmin(); }
+    function setOutOfOrderPolicy(OutOfOrderPolicy) external { _delegateToAdmin(); }
+    function setPausedMessagePolicy(PausedMessagePolicy) external { _delegateToAdmin(); }
+    function setRatingHistoryDepth(uint256) external { _delegateToAdmin(); }
+    function setRefreshRoute(uint32, bytes32) external { _delegateToAdmin(); }
+    function addRatingListener(address) external { _delegateToAdmin(); }
+    function removeRatingListener(address) external { _delegateToAdmin(); }
+
+    // Internal functions
+
+    /**
+     * @dev Run the current call against adminModule in this contract's context and
+     * bubble up its result. Never returns to the caller.
+     * @custom:oz-upgrades-unsafe-allow delegatecall
+     */
+    function _delegateToAdmin() private {
+        address module = adminModule;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+
+    /**
+     * @dev Count score moves above breakerScoreDelta in a fixed window and pause once
+     * more than breakerMaxLargeChanges are seen. The rating that trips the breaker is
+     * still stored, but LTV reads fall back to defaultLTV until unpaused.
+     */
+    function _trackScoreChange(uint8 _oldScore, uint8 _newScore) internal {
+        if (breakerMaxLargeChanges == 0) return;
+
+        uint256 delta = _oldScore > _newScore ? _oldScore - _newScore : _newScore - _oldScore;
+        if (delta <= breakerScoreDelta) return;
+
+        if (block.timestamp >= breakerWindowStart + breakerWindow) {
+            breakerWindowStart = block.timestamp;
+            breakerLargeChanges = 0;
+        }
+
+        breakerLargeChanges++;
+        if (breakerLargeChanges > breakerMaxLargeChanges && !paused()) {
+            _pause();
+            emit CircuitBreakerTripped(breakerLargeChanges, breakerWindowStart);
+        }
+    }
+
+    /**
+     * @dev Start a fresh breaker window so unpausing does not immediately trip again
+     */
+    function _unpause() internal override {
+        breakerWindowStart = block.timestamp;
+        breakerLargeChanges = 0;
+        super._unpause();
+    }
+
+    function _borrowerLtv(address borrower, LtvTier[] storage tiers) internal view returns (uint256) {
+        if (paused()) return defaultLTV;
+
+        (uint8 score, bool isValid) = getEffectiveScore(borrower);
+        if (!isValid) return defaultLTV;
+
+        return _riskParams(tiers, score).ltvBps / 100;
+    }
+
+    /**
+     * @dev Within maxRatingAge and the rating's own expiry, if it has one
+     */
+    function _isFresh(Rating memory rating) internal view returns (bool) {
+        return rating.timestamp != 0 &&
+            block.timestamp <= rating.timestamp + maxRatingAge &&
+            (rating.expiresAt == 0 || block.timestamp < rating.expiresAt);
     }
 
-    // Admin functions
-    function setAuthorizedSender(uint32 _sourceDomain, bytes32 _sender) external onlyOwner {
-        authorizedSenders[_sourceDomain] = _sender;
-        emit AuthorizedSenderUpdated(_sourceDomain, _sender);
+    function _isValid(address borrower, Rating memory rating) internal view returns (bool) {
+        return _isFresh(rating) && !_isRevoked(borrower, rating);
     }
 
-    function getAuthorizedSender(uint32 _sourceDomain) external view returns (bytes32) {
-        return authorizedSenders[_sourceDomain];
+    /**
+     * @dev Within the revocation's second only the revoking sender's nonces say which
+     * came first; ratings from any other sender are treated as revoked
+     */
+    function _issuedBeforeRevocation(address borrower, uint256 timestamp, bytes32 source, uint256 nonce)
+        internal
+        view
+        returns (bool)
+    {
+        uint256 revoked = revokedAt[borrower];
+        if (timestamp != revoked) return timestamp < revoked;
+        Revocation storage revocation = revocations[borrower];
+        return source != revocation.source || nonce < revocation.nonce;
     }
 
-    function setMailbox(address _newMailbox) external onlyOwner {
-        if (_newMailbox == address(0)) revert InvalidAddress();
-        mailbox = _newMailbox;
-        emit MailboxUpdated(_newMailbox);
+    /**
+     * @dev Same ordering as _issuedBeforeRevocation, using the message kept with the
+     * rating so it holds whichever of the two was delivered first. Ratings stored
+     * before the message was kept fall back to delivery order.
+     */
+    function _isRevoked(address borrower, Rating memory rating) internal view returns (bool) {
+        uint256 revoked = revokedAt[borrower];
+        if (rating.timestamp != revoked) return rating.timestamp < revoked;
+        Revocation storage revocation = revocations[borrower];
+        if (rating.source == bytes24(0)) return rating.receivedAt <= revocation.receivedAt;
+        return rating.source != bytes24(revocation.source) || rating.nonce < revocation.nonce;
+    }
+
+    /**
+     * @dev Whether the effective score rests on a private rating's tier floor
+     */
+    function _pricesPrivateRating(address borrower) internal view returns (bool) {
+        if (aggregationMode == AggregationMode.NONE) return borrowerRatings[borrower].commitment != bytes32(0);
+
+        address[] memory raters = aggregationRaters.values();
+        for (uint256 i = 0; i < raters.length; i++) {
+            Rating memory rating = raterRatings[borrower][raters[i]];
+            if (rating.commitment != bytes32(0) && _isValid(borrower, rating)) return true;
+        }
+        return false;
     }
 
-    function setMaxRatingAge(uint256 _newMaxAge) external onlyOwner {
-        maxRatingAge = _newMaxAge;
-        emit MaxRatingAgeUpdated(_newMaxAge);
+    function _riskParams(LtvTier[] storage tiers, uint8 score) internal view returns (LtvTier memory) {
+        (LtvTier memory tier, bool found) = LtvTierLogic.find(tiers, score);
+        return found ? tier : _defaultRiskParams();
     }
 
-    function setDefaultLTV(uint256 _newDefaultLTV) external onlyOwner {
-        require(_newDefaultLTV <= 100, "LTV cannot exceed 100%");
-        defaultLTV = _newDefaultLTV;
-        emit DefaultLTVUpdated(_newDefaultLTV);
+    function _defaultRiskParams() internal view returns (LtvTier memory) {
+        return LtvTier(0, uint16(defaultLTV * 100), defaultLiquidationThresholdBps, defaultLiquidationBonusBps);
     }
 
     // Helper functions
@@ -156,6 +761,6 @@ contract RatingConsumer is Initializable, OwnableUpgradeable, IMessageRecipient
     }
 
     function version() public pure returns (string memory) {
-        return "1.0.0";
+        return "2.0.0";
     }
 }
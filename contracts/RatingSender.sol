@@ -1,29 +1,147 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./access/RatingAccessControl.sol";
 import "./interfaces/IMailbox.sol";
+import "./interfaces/IMessageRecipient.sol";
+import "./libraries/RatingMessage.sol";
+
+contract RatingSender is Initializable, RatingAccessControl, EIP712Upgradeable, IMessageRecipient {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    // One message of a fan-out to every destination
+    struct Dispatch {
+        uint32 destinationDomain;
+        uint256 nonce;
+        bytes body;
+        uint256 fee;
+    }
+
+    // Ratings counted against a rater's limit in the current fixed window
+    struct RaterWindow {
+        uint64 start;
+        uint192 count;
+    }
+
+    // Last score sent for a borrower by any rater
+    struct LastScore {
+        uint8 score;
+        bool exists;
+    }
+
+    // Second approval letting the next rating of a borrower jump past maxScoreDelta
+    struct ScoreJumpApproval {
+        uint8 score;
+        address approver;
+        uint64 expiresAt;
+    }
+
+    // Outstanding request from a destination consumer for a new rating of a borrower
+    struct RefreshRequest {
+        uint64 requestedAt;
+        address requester;
+    }
 
-contract RatingSender is Initializable, OwnableUpgradeable {
+    bytes32 public constant RATING_ATTESTATION_TYPEHASH = keccak256(
+        "RatingAttestation(address borrower,uint8 score,uint256 issuedAt,uint256 nonce,uint256 deadline)"
+    );
+    string private constant SIGNING_DOMAIN_NAME = "RatingSender";
+    string private constant SIGNING_DOMAIN_VERSION = "1";
+    uint256 public constant SCORE_JUMP_APPROVAL_TTL = 1 days;
 
     // State Variables
     IMailbox public mailbox;
     mapping(uint32 => bytes32) public destinationRecipients;  // destinationDomain => recipient
     mapping(address => bool) public authorizedRaters;
-    uint256 public totalRatingsSent;
+    uint256 public totalRatingsSent;  // counted once per destination
+    mapping(uint32 => uint256) public outboundNonces;  // destinationDomain => last nonce used
+    uint256 public totalFeesPaid;  // fees forwarded to the mailbox
+    EnumerableSet.UintSet internal destinationDomains;  // domains with a non-zero recipient
+    mapping(address => mapping(uint256 => bool)) public usedAttestationNonces;  // rater => nonce => used
+    uint256 public rateLimitWindow;  // seconds; 0 disables the per-rater limit
+    uint256 public maxRatingsPerWindow;
+    uint8 public maxScoreDelta;  // 0 disables the check
+    mapping(address => RaterWindow) public raterWindows;  // rater => current window
+    mapping(address => LastScore) public lastScores;  // borrower => last score sent
+    mapping(address => ScoreJumpApproval) public scoreJumpApprovals;  // borrower => pending approval
+    bool public privateRatingsOnly;  // reject plaintext scores, see sendPrivateRating
+    mapping(uint32 => mapping(address => RefreshRequest)) public refreshRequests;  // originDomain => borrower => request
 
     // Events
-    event RatingSent(address indexed borrower, uint8 score, uint256 timestamp, bytes32 messageId);
+    event RatingSent(
+        uint32 indexed destinationDomain,
+        address indexed borrower,
+        uint8 score,
+        uint256 timestamp,
+        uint256 nonce,
+        bytes32 messageId
+    );
     event RaterAuthorized(address indexed rater);
     event RaterRevoked(address indexed rater);
     event DestinationRecipientUpdated(uint32 indexed destinationDomain, bytes32 indexed recipient);
     event MailboxUpdated(address indexed newMailbox);
+    event ExcessRefunded(address indexed payer, uint256 amount);
+    event Withdrawn(address indexed to, uint256 amount);
+    event SignedRatingSubmitted(address indexed rater, uint256 indexed nonce, address indexed submitter);
+    event PrivateRatingSent(
+        uint32 indexed destinationDomain,
+        address indexed borrower,
+        uint8 floorScore,
+        bytes32 commitment,
+        uint256 nonce,
+        bytes32 messageId
+    );
+    event PrivateRatingsOnlyUpdated(bool enabled);
+    event RatingRevocationSent(
+        uint32 indexed destinationDomain,
+        address indexed borrower,
+        string reason,
+        uint256 nonce,
+        bytes32 messageId
+    );
+    event RatingRefreshRequested(
+        uint32 indexed originDomain,
+        address indexed borrower,
+        address requester,
+        uint256 nonce
+    );
+    event RatingRefreshFulfilled(uint32 indexed destinationDomain, address indexed borrower);
+    event RatingLimitsUpdated(uint256 rateLimitWindow, uint256 maxRatingsPerWindow, uint8 maxScoreDelta);
+    event ScoreJumpApproved(address indexed borrower, uint8 score, address indexed approver, uint256 expiresAt);
+    event ScoreJumpApplied(
+        address indexed borrower,
+        uint8 previousScore,
+        uint8 newScore,
+        address indexed rater,
+        address indexed approver
+    );
 
     // Errors
     error Unauthorized();
     error InvalidRatingScore();
     error InvalidAddress();
+    error InsufficientFee(uint256 required, uint256 provided);
+    error TransferFailed();
+    error InsufficientBalance(uint256 available, uint256 requested);
+    error NoDestinations();
+    error InvalidSignature();
+    error SignatureExpired(uint256 deadline);
+    error AttestationNonceUsed(address rater, uint256 nonce);
+    error InvalidIssuedAt(uint256 issuedAt);
+    error InvalidRatingLimits();
+    error RateLimitExceeded(address rater, uint256 maxRatingsPerWindow, uint256 windowEndsAt);
+    error ScoreDeltaExceeded(address borrower, uint8 previousScore, uint8 newScore, uint8 maxScoreDelta);
+    error ApproverIsRater(address rater);
+    error InvalidExpiry(uint256 expiresAt);
+    error PlaintextRatingsDisabled();
+    error InvalidCommitment();
+    error UnauthorizedMailbox();
+    error UnknownConsumer(uint32 origin, bytes32 sender);
+    error UnsupportedMessage();
 
     modifier onlyAuthorizedRater() {
         if (!authorizedRaters[msg.sender]) revert Unauthorized();
@@ -37,13 +155,53 @@ contract RatingSender is Initializable, OwnableUpgradeable {
 
     function initialize(address _mailbox) public initializer {
         if (_mailbox == address(0)) revert InvalidAddress();
-        __Ownable_init(msg.sender);
+        __RatingAccessControl_init(msg.sender);
+        __EIP712_init(SIGNING_DOMAIN_NAME, SIGNING_DOMAIN_VERSION);
 
         mailbox = IMailbox(_mailbox);
         authorizedRaters[msg.sender] = true;
         emit RaterAuthorized(msg.sender);
     }
 
+    /**
+     * @notice Migrate a 1.0.0 proxy, deployed with a single Ownable owner, to this version
+     * @dev Meant to run as the `call` of the upgrade; otherwise the previous owner must
+     * call it. Either way the previous owner receives every role. Also registers the
+     * destinations configured before they were enumerable and sets up the EIP-712
+     * domain used by sendSignedRating.
+     * @param _destinationDomains Domains that already have a recipient; others are skipped
+     */
+    function initializeV2(uint32[] calldata _destinationDomains) external reinitializer(2) {
+        _migrateFromOwnable();
+        for (uint256 i = 0; i < _destinationDomains.length; i++) {
+            if (destinationRecipients[_destinationDomains[i]] != bytes32(0)) {
+                destinationDomains.add(_destinationDomains[i]);
+            }
+        }
+        __EIP712_init(SIGNING_DOMAIN_NAME, SIGNING_DOMAIN_VERSION);
+    }
+
+    /**
+     * @notice Receive a refresh request dispatched by a consumer's requestRatingRefresh
+     * @dev Only the recipient configured for the origin domain is trusted. The latest
+     * request per borrower is kept, even while paused, and cleared once any rating of
+     * that borrower is sent to the origin domain. The scoring service follows
+     * RatingRefreshRequested and answers with one of the send functions.
+     */
+    function handle(uint32 _origin, bytes32 _sender, bytes calldata _body) external payable override {
+        if (msg.sender != address(mailbox)) revert UnauthorizedMailbox();
+        if (_sender == bytes32(0) || destinationRecipients[_origin] != _sender) revert UnknownConsumer(_origin, _sender);
+        if (
+            _body.length < RatingMessage.HEADER_LENGTH
+                || !RatingMessage.isSupportedVersion(RatingMessage.version(_body))
+                || RatingMessage.messageType(_body) != uint8(RatingMessage.MessageType.REFRESH_REQUEST)
+        ) revert UnsupportedMessage();
+
+        (address borrower, address requester) = RatingMessage.decodeRefreshRequest(_body);
+        refreshRequests[_origin][borrower] = RefreshRequest(uint64(block.timestamp), requester);
+        emit RatingRefreshRequested(_origin, borrower, requester, RatingMessage.nonce(_body));
+    }
+
     /**
      * @notice Send rating to destination chain
      * @param destinationDomain Target chain domain ID
@@ -53,62 +211,417 @@ contract RatingSender is Initializable, OwnableUpgradeable {
     function sendRating(uint32 destinationDomain, address borrower, uint8 score)
         external
         payable
+        whenNotPaused
         onlyAuthorizedRater
     {
+        _sendRating(destinationDomain, borrower, score, 0);
+    }
+
+    /**
+     * @notice Send a rating that stops counting at `expiresAt`, or at maxRatingAge on
+     * the destination if that comes first
+     * @param expiresAt Expiry timestamp, after the current block
+     */
+    function sendRatingWithExpiry(uint32 destinationDomain, address borrower, uint8 score, uint256 expiresAt)
+        external
+        payable
+        whenNotPaused
+        onlyAuthorizedRater
+    {
+        if (expiresAt <= block.timestamp) revert InvalidExpiry(expiresAt);
+        _sendRating(destinationDomain, borrower, score, expiresAt);
+    }
+
+    /**
+     * @notice Send a rating without revealing the score
+     * @dev Only the floor of the tier the score falls in and a commitment to the exact
+     * score leave this chain. The rate limit and the score delta check apply to the
+     * floor, which is recorded as the borrower's last score, so a jump past
+     * maxScoreDelta needs an approval for the floor. Build both with tasks/ratingCommitment.ts.
+     * @param floorScore minScore of the destination consumer's tier the score falls in
+     * @param commitment keccak256(abi.encode(borrower, score, salt)), for auditors holding the salt
+     * @param expiresAt Expiry timestamp, or zero for none
+     */
+    function sendPrivateRating(
+        uint32 destinationDomain,
+        address borrower,
+        uint8 floorScore,
+        bytes32 commitment,
+        uint256 expiresAt
+    ) external payable whenNotPaused onlyAuthorizedRater {
+        if (floorScore > 100) revert InvalidRatingScore();
+        if (commitment == bytes32(0)) revert InvalidCommitment();
+        if (expiresAt != 0 && expiresAt <= block.timestamp) revert InvalidExpiry(expiresAt);
+        _enforceRateLimit(msg.sender, 1);
+        _enforceScoreDelta(msg.sender, borrower, floorScore);
+
+        bytes32 recipient = destinationRecipients[destinationDomain];
+        if (recipient == bytes32(0)) revert InvalidAddress();
+
+        uint256 nonce = ++outboundNonces[destinationDomain];
+        bytes memory messageBody = RatingMessage.encodePrivateRating(
+            nonce, borrower, floorScore, commitment, block.timestamp, msg.sender, expiresAt
+        );
+        bytes32 messageId = _dispatch(destinationDomain, recipient, messageBody);
+
+        totalRatingsSent++;
+        emit PrivateRatingSent(destinationDomain, borrower, floorScore, commitment, nonce, messageId);
+        _clearRefreshRequest(destinationDomain, borrower);
+    }
+
+    /**
+     * @notice Revoke a borrower's ratings on a destination chain
+     * @dev Every rating issued up to now stops counting there at once and LTV falls back
+     * to defaultLTV until a newer rating arrives. Not subject to the rating limits.
+     * @param reason Free-form reason, emitted on both chains
+     */
+    function revokeRating(uint32 destinationDomain, address borrower, string calldata reason)
+        external
+        payable
+        whenNotPaused
+        onlyAuthorizedRater
+    {
+        bytes32 recipient = destinationRecipients[destinationDomain];
+        if (recipient == bytes32(0)) revert InvalidAddress();
+
+        uint256 nonce = ++outboundNonces[destinationDomain];
+        bytes memory messageBody = RatingMessage.encodeRevocation(nonce, borrower, block.timestamp, msg.sender, reason);
+        bytes32 messageId = _dispatch(destinationDomain, recipient, messageBody);
+
+        emit RatingRevocationSent(destinationDomain, borrower, reason, nonce, messageId);
+    }
+
+    function _sendRating(uint32 destinationDomain, address borrower, uint8 score, uint256 expiresAt) internal {
         if (score > 100) revert InvalidRatingScore();
+        _enforceLimits(msg.sender, _singleton(borrower), _singleton(score));
 
         bytes32 recipient = destinationRecipients[destinationDomain];
         if (recipient == bytes32(0)) revert InvalidAddress();
 
-        bytes memory messageBody = abi.encode(borrower, score, block.timestamp);
-        bytes32 messageId = mailbox.dispatch{value: msg.value}(destinationDomain, recipient, messageBody);
+        uint256 nonce = ++outboundNonces[destinationDomain];
+        bytes memory messageBody =
+            RatingMessage.encodeRating(nonce, borrower, score, block.timestamp, msg.sender, expiresAt);
+        bytes32 messageId = _dispatch(destinationDomain, recipient, messageBody);
 
         totalRatingsSent++;
-        emit RatingSent(borrower, score, block.timestamp, messageId);
+        emit RatingSent(destinationDomain, borrower, score, block.timestamp, nonce, messageId);
+        _clearRefreshRequest(destinationDomain, borrower);
     }
 
     /**
-     * @notice Batch send ratings to destination chain
+     * @notice Batch send ratings to destination chain in a single message
+     * @dev One mailbox dispatch (and one interchain gas payment) covers every borrower
      */
     function sendRatingBatch(
         uint32 destinationDomain,
         address[] calldata borrowers,
         uint8[] calldata scores
-    ) external payable onlyAuthorizedRater {
-        require(borrowers.length == scores.length, "Array length mismatch");
-        require(borrowers.length > 0, "Empty arrays");
+    ) external payable whenNotPaused onlyAuthorizedRater {
+        _validateBatch(borrowers, scores);
+        _enforceLimits(msg.sender, borrowers, scores);
 
         bytes32 recipient = destinationRecipients[destinationDomain];
         if (recipient == bytes32(0)) revert InvalidAddress();
 
-        uint256 gasPerMessage = msg.value / borrowers.length;
         uint256 timestamp = block.timestamp;
+        uint256 nonce = ++outboundNonces[destinationDomain];
+        bytes memory messageBody = RatingMessage.encodeBatch(nonce, borrowers, scores, timestamp, msg.sender, 0);
+        bytes32 messageId = _dispatch(destinationDomain, recipient, messageBody);
 
         for (uint256 i = 0; i < borrowers.length; i++) {
-            if (scores[i] > 100) revert InvalidRatingScore();
+            emit RatingSent(destinationDomain, borrowers[i], scores[i], timestamp, nonce, messageId);
+            _clearRefreshRequest(destinationDomain, borrowers[i]);
+        }
+
+        totalRatingsSent += borrowers.length;
+    }
+
+    /**
+     * @notice Send a rating to every configured destination
+     * @dev `msg.value` must cover the sum of the per-destination fees (see
+     * quoteGasPaymentAll); nothing is dispatched otherwise
+     */
+    function sendRatingToAll(address borrower, uint8 score) external payable whenNotPaused onlyAuthorizedRater {
+        if (score > 100) revert InvalidRatingScore();
+        _enforceLimits(msg.sender, _singleton(borrower), _singleton(score));
+        _dispatchToAll(_singleton(borrower), _singleton(score), false, block.timestamp, msg.sender);
+    }
+
+    /**
+     * @notice Send a batch of ratings to every configured destination, one message per destination
+     */
+    function sendRatingBatchToAll(address[] calldata borrowers, uint8[] calldata scores)
+        external
+        payable
+        whenNotPaused
+        onlyAuthorizedRater
+    {
+        _validateBatch(borrowers, scores);
+        _enforceLimits(msg.sender, borrowers, scores);
+        _dispatchToAll(borrowers, scores, true, block.timestamp, msg.sender);
+    }
+
+    /**
+     * @notice Send a rating signed off-chain by an authorized rater to every configured destination
+     * @dev Anyone may submit and pay; the signer is carried as the rater and the
+     * consumer judges staleness from `issuedAt`. Each (rater, nonce) is accepted once,
+     * and signatures of revoked raters stop being accepted. `msg.value` must cover
+     * quoteGasPaymentAll.
+     * @param issuedAt When the rater issued the rating, not in the future
+     * @param nonce Any value the rater has not signed with before
+     * @param deadline Last timestamp at which the signature is accepted
+     * @param signature EIP-712 signature over RatingAttestation
+     */
+    function sendSignedRating(
+        address borrower,
+        uint8 score,
+        uint256 issuedAt,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external payable whenNotPaused {
+        if (block.timestamp > deadline) revert SignatureExpired(deadline);
+        if (issuedAt > block.timestamp) revert InvalidIssuedAt(issuedAt);
+        if (score > 100) revert InvalidRatingScore();
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(RATING_ATTESTATION_TYPEHASH, borrower, score, issuedAt, nonce, deadline))
+        );
+        (address rater, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || !authorizedRaters[rater]) revert InvalidSignature();
+
+        if (usedAttestationNonces[rater][nonce]) revert AttestationNonceUsed(rater, nonce);
+        usedAttestationNonces[rater][nonce] = true;
+        emit SignedRatingSubmitted(rater, nonce, msg.sender);
+        _enforceLimits(rater, _singleton(borrower), _singleton(score));
 
-            bytes memory messageBody = abi.encode(borrowers[i], scores[i], timestamp);
-            bytes32 messageId = mailbox.dispatch{value: gasPerMessage}(destinationDomain, recipient, messageBody);
+        _dispatchToAll(_singleton(borrower), _singleton(score), false, issuedAt, rater);
+    }
 
-            emit RatingSent(borrowers[i], scores[i], timestamp, messageId);
+    /**
+     * @dev Count the ratings against the rater's window and check each score against
+     * the borrower's last one. Every plaintext send passes through here, so it also
+     * enforces privateRatingsOnly.
+     */
+    function _enforceLimits(address rater, address[] memory borrowers, uint8[] memory scores) internal {
+        if (privateRatingsOnly) revert PlaintextRatingsDisabled();
+        _enforceRateLimit(rater, borrowers.length);
+
+        for (uint256 i = 0; i < borrowers.length; i++) {
+            _enforceScoreDelta(rater, borrowers[i], scores[i]);
         }
+    }
 
-        totalRatingsSent += borrowers.length;
+    /**
+     * @dev A jump past maxScoreDelta consumes a matching approval from someone other
+     * than the rater. Scores are recorded even while the check is disabled so enabling
+     * it later compares against real history.
+     */
+    function _enforceScoreDelta(address rater, address borrower, uint8 score) internal {
+        LastScore memory last = lastScores[borrower];
+        uint256 delta = score > last.score ? score - last.score : last.score - score;
+        if (maxScoreDelta > 0 && last.exists && delta > maxScoreDelta) {
+            ScoreJumpApproval memory approval = scoreJumpApprovals[borrower];
+            if (approval.approver == address(0) || approval.score != score || block.timestamp > approval.expiresAt) {
+                revert ScoreDeltaExceeded(borrower, last.score, score, maxScoreDelta);
+            }
+            if (approval.approver == rater) revert ApproverIsRater(rater);
+
+            delete scoreJumpApprovals[borrower];
+            emit ScoreJumpApplied(borrower, last.score, score, rater, approval.approver);
+        }
+        lastScores[borrower] = LastScore(score, true);
+    }
+
+    function _enforceRateLimit(address rater, uint256 count) internal {
+        if (maxRatingsPerWindow == 0) return;
+
+        RaterWindow memory window = raterWindows[rater];
+        if (block.timestamp >= window.start + rateLimitWindow) {
+            window = RaterWindow(uint64(block.timestamp), 0);
+        }
+        window.count += uint192(count);
+        if (window.count > maxRatingsPerWindow) {
+            revert RateLimitExceeded(rater, maxRatingsPerWindow, window.start + rateLimitWindow);
+        }
+        raterWindows[rater] = window;
+    }
+
+    function _dispatchToAll(
+        address[] memory borrowers,
+        uint8[] memory scores,
+        bool batch,
+        uint256 timestamp,
+        address rater
+    ) internal {
+        (Dispatch[] memory dispatches, uint256 totalFee) =
+            _prepareDispatches(borrowers, scores, batch, timestamp, rater);
+        if (msg.value < totalFee) revert InsufficientFee(totalFee, msg.value);
+
+        for (uint256 i = 0; i < dispatches.length; i++) {
+            Dispatch memory message = dispatches[i];
+            outboundNonces[message.destinationDomain] = message.nonce;
+            bytes32 messageId = mailbox.dispatch{value: message.fee}(
+                message.destinationDomain,
+                destinationRecipients[message.destinationDomain],
+                message.body
+            );
+
+            for (uint256 j = 0; j < borrowers.length; j++) {
+                emit RatingSent(message.destinationDomain, borrowers[j], scores[j], timestamp, message.nonce, messageId);
+                _clearRefreshRequest(message.destinationDomain, borrowers[j]);
+            }
+        }
+
+        totalRatingsSent += borrowers.length * dispatches.length;
+        totalFeesPaid += totalFee;
+        _refundExcess(totalFee);
+    }
+
+    function _clearRefreshRequest(uint32 destinationDomain, address borrower) internal {
+        if (refreshRequests[destinationDomain][borrower].requestedAt == 0) return;
+        delete refreshRequests[destinationDomain][borrower];
+        emit RatingRefreshFulfilled(destinationDomain, borrower);
+    }
+
+    /**
+     * @dev Encode and quote the message for every destination using the next nonce of each
+     */
+    function _prepareDispatches(
+        address[] memory borrowers,
+        uint8[] memory scores,
+        bool batch,
+        uint256 timestamp,
+        address rater
+    )
+        internal
+        view
+        returns (Dispatch[] memory dispatches, uint256 totalFee)
+    {
+        uint256 count = destinationDomains.length();
+        if (count == 0) revert NoDestinations();
+
+        dispatches = new Dispatch[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint32 destinationDomain = uint32(destinationDomains.at(i));
+            uint256 nonce = outboundNonces[destinationDomain] + 1;
+            bytes memory body = batch
+                ? RatingMessage.encodeBatch(nonce, borrowers, scores, timestamp, rater, 0)
+                : RatingMessage.encodeRating(nonce, borrowers[0], scores[0], timestamp, rater, 0);
+            uint256 fee = mailbox.quoteDispatch(destinationDomain, destinationRecipients[destinationDomain], body);
+
+            dispatches[i] = Dispatch(destinationDomain, nonce, body, fee);
+            totalFee += fee;
+        }
+    }
+
+    function _validateBatch(address[] calldata borrowers, uint8[] calldata scores) internal pure {
+        require(borrowers.length == scores.length, "Array length mismatch");
+        require(borrowers.length > 0, "Empty arrays");
+
+        for (uint256 i = 0; i < scores.length; i++) {
+            if (scores[i] > 100) revert InvalidRatingScore();
+        }
+    }
+
+    function _singleton(address value) internal pure returns (address[] memory values) {
+        values = new address[](1);
+        values[0] = value;
+    }
+
+    function _singleton(uint8 value) internal pure returns (uint8[] memory values) {
+        values = new uint8[](1);
+        values[0] = value;
+    }
+
+    /**
+     * @notice Dispatch a message paying exactly the quoted fee
+     * @dev Any excess `msg.value` is refunded to the caller
+     */
+    function _dispatch(uint32 destinationDomain, bytes32 recipient, bytes memory messageBody)
+        internal
+        returns (bytes32 messageId)
+    {
+        uint256 fee = mailbox.quoteDispatch(destinationDomain, recipient, messageBody);
+        if (msg.value < fee) revert InsufficientFee(fee, msg.value);
+
+        messageId = mailbox.dispatch{value: fee}(destinationDomain, recipient, messageBody);
+        totalFeesPaid += fee;
+        _refundExcess(fee);
+    }
+
+    function _refundExcess(uint256 fee) internal {
+        uint256 excess = msg.value - fee;
+        if (excess > 0) {
+            (bool success, ) = msg.sender.call{value: excess}("");
+            if (!success) revert TransferFailed();
+            emit ExcessRefunded(msg.sender, excess);
+        }
     }
 
     // Admin functions
-    function authorizeRater(address rater) external onlyOwner {
+    function authorizeRater(address rater) external onlyRole(RATER_MANAGER_ROLE) {
         authorizedRaters[rater] = true;
         emit RaterAuthorized(rater);
     }
 
-    function revokeRater(address rater) external onlyOwner {
+    function revokeRater(address rater) external onlyRole(RATER_MANAGER_ROLE) {
         authorizedRaters[rater] = false;
         emit RaterRevoked(rater);
     }
 
-    function setDestinationRecipient(uint32 _destinationDomain, bytes32 _recipient) external onlyOwner {
+    /**
+     * @notice Configure the per-rater rate limit and the largest score change allowed without a second approval
+     * @param _rateLimitWindow Window length in seconds; 0 together with `_maxRatingsPerWindow` 0 disables the limit
+     * @param _maxRatingsPerWindow Ratings each rater may send per window, counted once per borrower
+     * @param _maxScoreDelta Largest change from a borrower's last score (1-100); 0 disables the check
+     */
+    function setRatingLimits(uint256 _rateLimitWindow, uint256 _maxRatingsPerWindow, uint8 _maxScoreDelta)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+    {
+        if ((_rateLimitWindow == 0) != (_maxRatingsPerWindow == 0) || _rateLimitWindow > type(uint64).max) {
+            revert InvalidRatingLimits();
+        }
+        if (_maxScoreDelta > 100) revert InvalidRatingLimits();
+
+        rateLimitWindow = _rateLimitWindow;
+        maxRatingsPerWindow = _maxRatingsPerWindow;
+        maxScoreDelta = _maxScoreDelta;
+        emit RatingLimitsUpdated(_rateLimitWindow, _maxRatingsPerWindow, _maxScoreDelta);
+    }
+
+    /**
+     * @notice Let the next rating of `borrower` jump to exactly `score` past maxScoreDelta
+     * @dev Valid for SCORE_JUMP_APPROVAL_TTL and replaces any earlier approval for the
+     * borrower. The rating must come from a rater other than the approver.
+     */
+    function approveScoreJump(address borrower, uint8 score) external onlyRole(RATING_APPROVER_ROLE) {
+        if (score > 100) revert InvalidRatingScore();
+
+        uint256 expiresAt = block.timestamp + SCORE_JUMP_APPROVAL_TTL;
+        scoreJumpApprovals[borrower] = ScoreJumpApproval(score, msg.sender, uint64(expiresAt));
+        emit ScoreJumpApproved(borrower, score, msg.sender, expiresAt);
+    }
+
+    /**
+     * @notice Only accept sendPrivateRating, so no score is published in plaintext
+     */
+    function setPrivateRatingsOnly(bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        privateRatingsOnly = enabled;
+        emit PrivateRatingsOnlyUpdated(enabled);
+    }
+
+    function setDestinationRecipient(uint32 _destinationDomain, bytes32 _recipient)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
         destinationRecipients[_destinationDomain] = _recipient;
+        if (_recipient == bytes32(0)) {
+            destinationDomains.remove(_destinationDomain);
+        } else {
+            destinationDomains.add(_destinationDomain);
+        }
         emit DestinationRecipientUpdated(_destinationDomain, _recipient);
     }
 
@@ -116,12 +629,45 @@ contract RatingSender is Initializable, OwnableUpgradeable {
         return destinationRecipients[_destinationDomain];
     }
 
-    function setMailbox(address _newMailbox) external onlyOwner {
+    /**
+     * @notice Get every domain with a configured recipient, as used by the *ToAll functions
+     */
+    function getDestinationDomains() external view returns (uint32[] memory domains) {
+        uint256 count = destinationDomains.length();
+        domains = new uint32[](count);
+        for (uint256 i = 0; i < count; i++) {
+            domains[i] = uint32(destinationDomains.at(i));
+        }
+    }
+
+    function setMailbox(address _newMailbox) external onlyRole(DEFAULT_ADMIN_ROLE) {
         if (_newMailbox == address(0)) revert InvalidAddress();
         mailbox = IMailbox(_newMailbox);
         emit MailboxUpdated(_newMailbox);
     }
 
+    /**
+     * @notice Native balance held by the contract and not owed to any caller
+     */
+    function strandedBalance() external view returns (uint256) {
+        return address(this).balance;
+    }
+
+    /**
+     * @notice Withdraw native balance stranded in the contract (e.g. hook refunds)
+     * @param to Recipient of the funds
+     * @param amount Amount in wei
+     */
+    function withdraw(address payable to, uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (to == address(0)) revert InvalidAddress();
+        uint256 available = address(this).balance;
+        if (amount > available) revert InsufficientBalance(available, amount);
+
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert TransferFailed();
+        emit Withdrawn(to, amount);
+    }
+
     // Helper functions
     function addressToBytes32(address _addr) public pure returns (bytes32) {
         return bytes32(uint256(uint160(_addr)));
@@ -146,7 +692,8 @@ contract RatingSender is Initializable, OwnableUpgradeable {
         bytes32 recipient = destinationRecipients[destinationDomain];
         if (recipient == bytes32(0)) revert InvalidAddress();
 
-        bytes memory messageBody = abi.encode(borrower, score, block.timestamp);
+        uint256 nonce = outboundNonces[destinationDomain] + 1;
+        bytes memory messageBody = RatingMessage.encodeRating(nonce, borrower, score, block.timestamp, msg.sender, 0);
         return mailbox.quoteDispatch(destinationDomain, recipient, messageBody);
     }
 
@@ -155,7 +702,7 @@ contract RatingSender is Initializable, OwnableUpgradeable {
      * @param destinationDomain Target chain domain ID
      * @param borrowers Array of borrower addresses
      * @param scores Array of credit scores
-     * @return totalFee Total estimated gas fee for all messages
+     * @return totalFee Estimated gas fee for the single batch message
      */
     function quoteGasPaymentBatch(
         uint32 destinationDomain,
@@ -168,16 +715,52 @@ contract RatingSender is Initializable, OwnableUpgradeable {
         bytes32 recipient = destinationRecipients[destinationDomain];
         if (recipient == bytes32(0)) revert InvalidAddress();
 
-        uint256 timestamp = block.timestamp;
+        uint256 nonce = outboundNonces[destinationDomain] + 1;
+        bytes memory messageBody = RatingMessage.encodeBatch(nonce, borrowers, scores, block.timestamp, msg.sender, 0);
+        return mailbox.quoteDispatch(destinationDomain, recipient, messageBody);
+    }
 
-        for (uint256 i = 0; i < borrowers.length; i++) {
-            bytes memory messageBody = abi.encode(borrowers[i], scores[i], timestamp);
-            totalFee += mailbox.quoteDispatch(destinationDomain, recipient, messageBody);
-        }
+    /**
+     * @notice Quote gas payment for revokeRating
+     */
+    function quoteRevocation(uint32 destinationDomain, address borrower, string calldata reason)
+        external
+        view
+        returns (uint256 fee)
+    {
+        bytes32 recipient = destinationRecipients[destinationDomain];
+        if (recipient == bytes32(0)) revert InvalidAddress();
+
+        uint256 nonce = outboundNonces[destinationDomain] + 1;
+        bytes memory messageBody = RatingMessage.encodeRevocation(nonce, borrower, block.timestamp, msg.sender, reason);
+        return mailbox.quoteDispatch(destinationDomain, recipient, messageBody);
+    }
+
+    /**
+     * @notice Quote the combined gas payment for sendRatingToAll
+     * @return totalFee Sum of the fees for every destination
+     */
+    function quoteGasPaymentAll(address borrower, uint8 score) external view returns (uint256 totalFee) {
+        (, totalFee) = _prepareDispatches(_singleton(borrower), _singleton(score), false, block.timestamp, msg.sender);
+    }
+
+    /**
+     * @notice Quote the combined gas payment for sendRatingBatchToAll
+     * @return totalFee Sum of the fees for every destination
+     */
+    function quoteGasPaymentBatchAll(address[] calldata borrowers, uint8[] calldata scores)
+        external
+        view
+        returns (uint256 totalFee)
+    {
+        require(borrowers.length == scores.length, "Array length mismatch");
+        require(borrowers.length > 0, "Empty arrays");
+
+        (, totalFee) = _prepareDispatches(borrowers, scores, true, block.timestamp, msg.sender);
     }
 
     function version() public pure returns (string memory) {
-        return "1.0.0";
+        return "2.0.0";
     }
 
     receive() external payable {}
@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/access/extensions/AccessControlEnumerableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+
+/**
+ * @title RatingAccessControl
+ * @notice Roles and the emergency pause shared by RatingSender and RatingConsumer
+ * @dev DEFAULT_ADMIN_ROLE manages the other roles and the cross-chain wiring
+ * (mailbox, ISM, senders, recipients). Replaces the single Ownable owner of
+ * earlier versions; `_migrateFromOwnable` hands every role to that owner.
+ * Both contracts sit behind transparent proxies, so upgrades go through the
+ * ProxyAdmin and no role can upgrade them.
+ */
+abstract contract RatingAccessControl is
+    Initializable,
+    AccessControlEnumerableUpgradeable,
+    PausableUpgradeable
+{
+    bytes32 public constant RATER_MANAGER_ROLE = keccak256("RATER_MANAGER_ROLE");
+    bytes32 public constant RISK_PARAMETER_MANAGER_ROLE = keccak256("RISK_PARAMETER_MANAGER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant RATING_APPROVER_ROLE = keccak256("RATING_APPROVER_ROLE");
+
+    /// @dev OwnableUpgradeable's namespace, kept so upgrades from Ownable versions stay layout compatible
+    /// @custom:storage-location erc7201:openzeppelin.storage.Ownable
+    struct LegacyOwnableStorage {
+        address _owner;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("openzeppelin.storage.Ownable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant LEGACY_OWNABLE_STORAGE =
+        0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300;
+
+    event LegacyOwnerMigrated(address indexed owner);
+
+    error NotLegacyOwner(address caller);
+
+    function __RatingAccessControl_init(address _admin) internal onlyInitializing {
+        __AccessControlEnumerable_init();
+        __Pausable_init();
+        _grantAllRoles(_admin);
+    }
+
+    /**
+     * @notice Halt rating flow through this contract
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Grant every role to the owner recorded by OwnableUpgradeable and clear
+     * the legacy slot. Only that owner, or the ProxyAdmin running the migration as
+     * part of the upgrade, may run it.
+     */
+    function _migrateFromOwnable() internal {
+        LegacyOwnableStorage storage $ = _getLegacyOwnableStorage();
+        address legacyOwner = $._owner;
+        if (legacyOwner == address(0) || (msg.sender != legacyOwner && msg.sender != ERC1967Utils.getAdmin())) {
+            revert NotLegacyOwner(msg.sender);
+        }
+
+        _grantAllRoles(legacyOwner);
+        delete $._owner;
+        emit LegacyOwnerMigrated(legacyOwner);
+    }
+
+    function _getLegacyOwnableStorage() private pure returns (LegacyOwnableStorage storage $) {
+        assembly {
+            $.slot := LEGACY_OWNABLE_STORAGE
+        }
+    }
+
+    function _grantAllRoles(address _account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, _account);
+        _grantRole(RATER_MANAGER_ROLE, _account);
+        _grantRole(RISK_PARAMETER_MANAGER_ROLE, _account);
+        _grantRole(PAUSER_ROLE, _account);
+        _grantRole(RATING_APPROVER_ROLE, _account);
+    }
+}
@@ -0,0 +1,131 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "../RatingConsumer.sol";
+
+/**
+ * @notice Exposes RatingConsumer ratings to an Aave V3 style market as per-borrower LTVs
+ * @dev The "Governance Adapter" integration option: the market reads this contract
+ * instead of the consumer, so governance bounds whatever a rating can do. Every LTV
+ * is clamped to [minLtvBps, maxLtvBps]. Missing, stale or revoked ratings (and a
+ * paused consumer) fall back to the consumer's lowest tier rather than its
+ * defaultLTV. Per-borrower overrides take precedence over ratings.
+ * Not upgradeable: governance approves this exact code and swaps adapters instead.
+ */
+contract AaveGovernanceAdapter is AccessControl {
+
+    enum LtvSource {
+        RATING,    // the consumer's rating-derived LTV
+        FALLBACK,  // the consumer's lowest tier, the rating being missing, stale or revoked
+        OVERRIDE   // set for the borrower with setBorrowerOverride
+    }
+
+    struct BorrowerOverride {
+        uint16 ltvBps;
+        uint64 expiresAt;  // zero => never expires
+    }
+
+    bytes32 public constant RISK_PARAMETER_MANAGER_ROLE = keccak256("RISK_PARAMETER_MANAGER_ROLE");
+    uint256 public constant MAX_LTV_BPS = 10_000;
+
+    RatingConsumer public immutable consumer;
+    uint16 public minLtvBps;
+    uint16 public maxLtvBps;
+    mapping(address => BorrowerOverride) public borrowerOverrides;
+
+    event LtvBoundsUpdated(uint16 minLtvBps, uint16 maxLtvBps);
+    event BorrowerOverrideSet(address indexed borrower, uint16 ltvBps, uint64 expiresAt);
+    event BorrowerOverrideRemoved(address indexed borrower);
+
+    error InvalidAddress();
+    error InvalidLtvBounds(uint16 minLtvBps, uint16 maxLtvBps);
+    error LtvOutOfBounds(uint16 ltvBps);
+    error InvalidOverrideExpiry(uint64 expiresAt);
+    error OverrideNotFound(address borrower);
+
+    /**
+     * @param _consumer RatingConsumer on this chain
+     * @param _governance Receives DEFAULT_ADMIN_ROLE and RISK_PARAMETER_MANAGER_ROLE
+     */
+    constructor(address _consumer, address _governance, uint16 _minLtvBps, uint16 _maxLtvBps) {
+        if (_consumer == address(0) || _governance == address(0)) revert InvalidAddress();
+        consumer = RatingConsumer(_consumer);
+        _grantRole(DEFAULT_ADMIN_ROLE, _governance);
+        _grantRole(RISK_PARAMETER_MANAGER_ROLE, _governance);
+        _setLtvBounds(_minLtvBps, _maxLtvBps);
+    }
+
+    /**
+     * @notice LTV the market should apply to `borrower`, in basis points
+     */
+    function getBorrowerLtvBps(address borrower) external view returns (uint256 ltvBps) {
+        (ltvBps, ) = getBorrowerLtv(borrower);
+    }
+
+    /**
+     * @notice LTV for `borrower` in basis points and where it came from
+     */
+    function getBorrowerLtv(address borrower) public view returns (uint256 ltvBps, LtvSource source) {
+        BorrowerOverride memory borrowerOverride = borrowerOverrides[borrower];
+        bool overridden = borrowerOverride.ltvBps != 0
+            && (borrowerOverride.expiresAt == 0 || block.timestamp < borrowerOverride.expiresAt);
+        if (overridden) return (_clamp(borrowerOverride.ltvBps), LtvSource.OVERRIDE);
+
+        (uint256 ratedLtvBps, , , bool isValid) = consumer.getBorrowerRiskParams(borrower);
+        if (!isValid) return (_clamp(lowestTierLtvBps()), LtvSource.FALLBACK);
+        return (_clamp(ratedLtvBps), LtvSource.RATING);
+    }
+
+    /**
+     * @notice LTV of the consumer's lowest tier, used when a rating cannot be trusted
+     */
+    function lowestTierLtvBps() public view returns (uint256) {
+        LtvTier[] memory tiers = consumer.getLtvTiers();
+        return tiers[tiers.length - 1].ltvBps;
+    }
+
+    /**
+     * @notice Bound every LTV this adapter reports
+     */
+    function setLtvBounds(uint16 _minLtvBps, uint16 _maxLtvBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setLtvBounds(_minLtvBps, _maxLtvBps);
+    }
+
+    /**
+     * @notice Price `borrower` at a fixed LTV regardless of their rating
+     * @dev Still clamped to the bounds in force when read
+     * @param _ltvBps LTV in basis points, within the current bounds and non-zero
+     * @param _expiresAt Timestamp the override stops applying at, zero for never
+     */
+    function setBorrowerOverride(address _borrower, uint16 _ltvBps, uint64 _expiresAt)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+    {
+        if (_borrower == address(0)) revert InvalidAddress();
+        if (_ltvBps == 0 || _ltvBps < minLtvBps || _ltvBps > maxLtvBps) revert LtvOutOfBounds(_ltvBps);
+        if (_expiresAt != 0 && _expiresAt <= block.timestamp) revert InvalidOverrideExpiry(_expiresAt);
+
+        borrowerOverrides[_borrower] = BorrowerOverride(_ltvBps, _expiresAt);
+        emit BorrowerOverrideSet(_borrower, _ltvBps, _expiresAt);
+    }
+
+    function removeBorrowerOverride(address _borrower) external onlyRole(RISK_PARAMETER_MANAGER_ROLE) {
+        if (borrowerOverrides[_borrower].ltvBps == 0) revert OverrideNotFound(_borrower);
+        delete borrowerOverrides[_borrower];
+        emit BorrowerOverrideRemoved(_borrower);
+    }
+
+    function _setLtvBounds(uint16 _minLtvBps, uint16 _maxLtvBps) internal {
+        if (_minLtvBps > _maxLtvBps || _maxLtvBps > MAX_LTV_BPS) revert InvalidLtvBounds(_minLtvBps, _maxLtvBps);
+        minLtvBps = _minLtvBps;
+        maxLtvBps = _maxLtvBps;
+        emit LtvBoundsUpdated(_minLtvBps, _maxLtvBps);
+    }
+
+    function _clamp(uint256 ltvBps) internal view returns (uint256) {
+        if (ltvBps < minLtvBps) return minLtvBps;
+        if (ltvBps > maxLtvBps) return maxLtvBps;
+        return ltvBps;
+    }
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "../interfaces/IRatingListener.sol";
+
+/**
+ * @notice Reference IRatingListener for lending integrations
+ * @dev Keeps the LTV each borrower was last notified at and a watchlist of
+ * borrowers whose score dropped, so a keeper or the lending market can review their
+ * positions before their next action. A later upgrade takes a borrower off the list.
+ * Stays within RatingConsumer.LISTENER_GAS_LIMIT per callback.
+ */
+contract RatingListenerAdapter is IRatingListener {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    address public immutable consumer;
+    mapping(address => uint256) public borrowerLtv;  // borrower => LTV from the latest callback
+    mapping(address => uint256) public updatedAt;  // borrower => time of the latest callback
+    EnumerableSet.AddressSet internal downgradedBorrowers;
+
+    event BorrowerDowngraded(address indexed borrower, uint8 oldScore, uint8 newScore, uint256 newLtv);
+    event BorrowerUpgraded(address indexed borrower, uint8 oldScore, uint8 newScore, uint256 newLtv);
+
+    error InvalidAddress();
+    error UnauthorizedConsumer();
+
+    constructor(address _consumer) {
+        if (_consumer == address(0)) revert InvalidAddress();
+        consumer = _consumer;
+    }
+
+    function onRatingUpdated(address borrower, uint8 oldScore, uint8 newScore, uint256 newLtv) external {
+        if (msg.sender != consumer) revert UnauthorizedConsumer();
+
+        borrowerLtv[borrower] = newLtv;
+        updatedAt[borrower] = block.timestamp;
+
+        if (newScore < oldScore) {
+            downgradedBorrowers.add(borrower);
+            emit BorrowerDowngraded(borrower, oldScore, newScore, newLtv);
+        } else if (newScore > oldScore) {
+            downgradedBorrowers.remove(borrower);
+            emit BorrowerUpgraded(borrower, oldScore, newScore, newLtv);
+        }
+    }
+
+    /**
+     * @notice Whether the borrower's latest score change was a downgrade
+     */
+    function isDowngraded(address borrower) external view returns (bool) {
+        return downgradedBorrowers.contains(borrower);
+    }
+
+    /**
+     * @notice Borrowers whose latest score change was a downgrade
+     */
+    function getDowngradedBorrowers() external view returns (address[] memory) {
+        return downgradedBorrowers.values();
+    }
+}
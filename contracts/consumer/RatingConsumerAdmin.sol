@@ -0,0 +1,474 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "../access/RatingAccessControl.sol";
+import "../interfaces/IRatingConsumerAdmin.sol";
+import "./RatingConsumerStorage.sol";
+
+/**
+ * @notice Initializers, timelocked changes and admin setters of RatingConsumer
+ * @dev Only reached through RatingConsumer, which delegatecalls it so every
+ * function runs against the consumer proxy's storage and roles. Split out to
+ * keep RatingConsumer under the contract size limit.
+ */
+contract RatingConsumerAdmin is
+    Initializable,
+    RatingAccessControl,
+    RatingConsumerStorage,
+    IRatingConsumerAdmin
+{
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _mailbox) public initializer {
+        if (_mailbox == address(0)) revert InvalidAddress();
+        __RatingAccessControl_init(msg.sender);
+
+        mailbox = _mailbox;
+        maxRatingAge = 24 hours;
+        defaultLTV = 40;
+        _setDefaultLtvTiers();
+        _seedDefaultLiquidationParams();
+        _setRatingHistoryDepth(DEFAULT_RATING_HISTORY_DEPTH);
+        _setDefaultChangeDelay();
+    }
+
+    /**
+     * @notice Migrate a 1.0.0 proxy, deployed with a single Ownable owner, to this version
+     * @dev Meant to run as the `call` of the upgrade; otherwise the previous owner must
+     * call it. Either way the previous owner receives every role. Also seeds the
+     * default LTV tiers, liquidation params, history depth and change delay, and moves the single
+     * authorized sender into the per-domain sender sets.
+     * @param _sourceDomains Domains that had a sender configured; the old entry never expires
+     */
+    function initializeV2(uint32[] calldata _sourceDomains) external reinitializer(2) {
+        _migrateFromOwnable();
+        _setDefaultLtvTiers();
+        _seedDefaultLiquidationParams();
+        _setRatingHistoryDepth(DEFAULT_RATING_HISTORY_DEPTH);
+        _setDefaultChangeDelay();
+
+        for (uint256 i = 0; i < _sourceDomains.length; i++) {
+            bytes32 legacySender = authorizedSenders[_sourceDomains[i]];
+            if (legacySender == bytes32(0)) continue;
+
+            delete authorizedSenders[_sourceDomains[i]];
+            _addAuthorizedSender(_sourceDomains[i], legacySender, 0);
+        }
+    }
+
+    // Timelocked admin functions: propose, wait changeDelay, then executeChange
+    function proposeMaxRatingAge(uint256 _newMaxAge)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        return _proposeChange(ChangeType.MAX_RATING_AGE, abi.encode(_newMaxAge));
+    }
+
+    function proposeDefaultLTV(uint256 _newDefaultLTV)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        require(_newDefaultLTV <= 100, "LTV cannot exceed 100%");
+        return _proposeChange(ChangeType.DEFAULT_LTV, abi.encode(_newDefaultLTV));
+    }
+
+    /**
+     * @notice Propose authorizing a sender alongside the existing ones for a domain
+     * @dev Re-adding a registered sender updates its expiry, which lets an old
+     * sender be phased out while its replacement is already accepted
+     * @param _expiresAt Timestamp after which the sender is rejected, zero for never
+     */
+    function proposeAddAuthorizedSender(uint32 _sourceDomain, bytes32 _sender, uint256 _expiresAt)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        returns (bytes32)
+    {
+        if (_sender == bytes32(0)) revert InvalidAddress();
+        if (_expiresAt != 0 && _expiresAt <= block.timestamp) revert InvalidSenderExpiry(_expiresAt);
+        return _proposeChange(ChangeType.ADD_AUTHORIZED_SENDER, abi.encode(_sourceDomain, _sender, _expiresAt));
+    }
+
+    function proposeRemoveAuthorizedSender(uint32 _sourceDomain, bytes32 _sender)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        returns (bytes32)
+    {
+        return _proposeChange(ChangeType.REMOVE_AUTHORIZED_SENDER, abi.encode(_sourceDomain, _sender));
+    }
+
+    function proposeMailbox(address _newMailbox) external onlyRole(DEFAULT_ADMIN_ROLE) returns (bytes32) {
+        if (_newMailbox == address(0)) revert InvalidAddress();
+        return _proposeChange(ChangeType.MAILBOX, abi.encode(_newMailbox));
+    }
+
+    /**
+     * @notice Propose the ISM the mailbox uses to verify messages for this contract
+     * @param _module ISM address, or zero to fall back to the mailbox default
+     */
+    function proposeInterchainSecurityModule(address _module) external onlyRole(DEFAULT_ADMIN_ROLE) returns (bytes32) {
+        return _proposeChange(ChangeType.INTERCHAIN_SECURITY_MODULE, abi.encode(_module));
+    }
+
+    /**
+     * @notice Propose a new timelock delay; the current delay applies to this change too
+     */
+    function proposeChangeDelay(uint256 _newDelay) external onlyRole(DEFAULT_ADMIN_ROLE) returns (bytes32) {
+        if (_newDelay > MAX_CHANGE_DELAY) revert InvalidChangeDelay(_newDelay);
+        return _proposeChange(ChangeType.CHANGE_DELAY, abi.encode(_newDelay));
+    }
+
+    /**
+     * @notice Propose the liquidation parameters returned alongside defaultLTV
+     */
+    function proposeDefaultLiquidationParams(uint16 _liquidationThresholdBps, uint16 _liquidationBonusBps)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        LtvTierLogic.validateRiskParams(defaultLTV * 100, _liquidationThresholdBps, _liquidationBonusBps);
+        return _proposeChange(
+            ChangeType.DEFAULT_LIQUIDATION_PARAMS,
+            abi.encode(_liquidationThresholdBps, _liquidationBonusBps)
+        );
+    }
+
+    /**
+     * @notice Propose replacing the score -> LTV tier table
+     * @dev The first tier whose minScore the rating meets applies; scores below
+     * every threshold fall back to defaultLTV
+     * @param _tiers Tiers ordered by strictly decreasing minScore
+     */
+    function proposeLtvTiers(LtvTier[] calldata _tiers)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        LtvTierLogic.validate(_tiers);
+        return _proposeChange(ChangeType.LTV_TIERS, abi.encode(_tiers));
+    }
+
+    /**
+     * @notice Propose registering or replacing the LTV curve for a collateral asset
+     * @param _asset Collateral asset (e.g. an Aave reserve)
+     * @param _tiers Tiers ordered by strictly decreasing minScore
+     */
+    function proposeAssetLtvTiers(address _asset, LtvTier[] calldata _tiers)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        if (_asset == address(0)) revert InvalidAddress();
+        LtvTierLogic.validate(_tiers);
+        return _proposeChange(ChangeType.ASSET_LTV_TIERS, abi.encode(_asset, _tiers));
+    }
+
+    /**
+     * @notice Propose removing an asset curve so the asset falls back to the global tiers
+     */
+    function proposeRemoveAssetLtvTiers(address _asset)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        return _proposeChange(ChangeType.REMOVE_ASSET_LTV_TIERS, abi.encode(_asset));
+    }
+
+    /**
+     * @notice Propose how ratings from several raters combine into the score LTV reads use
+     * @dev Ratings from `_raters` are kept per rater whatever the mode, so the set can
+     * be filled before switching away from NONE. Borrowers with fewer than `_quorum`
+     * fresh ratings from the set fall back to defaultLTV while a mode is active.
+     * @param _mode NONE prices the latest rating from any rater
+     * @param _raters Raters whose latest ratings are aggregated
+     * @param _quorum Fresh ratings required for the aggregate, between 1 and the number of raters
+     */
+    function proposeRatingAggregation(AggregationMode _mode, address[] calldata _raters, uint256 _quorum)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        if (_raters.length > MAX_AGGREGATION_RATERS || _quorum > _raters.length) revert InvalidAggregation();
+        if (_mode != AggregationMode.NONE && _quorum == 0) revert InvalidAggregation();
+        return _proposeChange(ChangeType.RATING_AGGREGATION, abi.encode(_mode, _raters, _quorum));
+    }
+
+    /**
+     * @notice Propose a configuration for the automatic circuit breaker
+     * @param _maxLargeChanges Large changes tolerated per window (zero disables the breaker)
+     * @param _scoreDelta Score change, in points, above which a change counts as large
+     * @param _window Window length in seconds
+     */
+    function proposeCircuitBreaker(uint256 _maxLargeChanges, uint256 _scoreDelta, uint256 _window)
+        external
+        onlyRole(RISK_PARAMETER_MANAGER_ROLE)
+        returns (bytes32)
+    {
+        if (_maxLargeChanges > 0 && (_window == 0 || _scoreDelta >= 100)) revert InvalidCircuitBreaker();
+        return _proposeChange(ChangeType.CIRCUIT_BREAKER, abi.encode(_maxLargeChanges, _scoreDelta, _window));
+    }
+
+    /**
+     * @notice Apply a pending change once its delay has passed
+     * @dev Requires the role that may propose the change
+     */
+    function executeChange(bytes32 id) external {
+        PendingChange memory change = _pendingChange(id);
+        _checkRole(_changeRole(change.changeType));
+        if (block.timestamp < change.eta) revert ChangeNotReady(id, change.eta);
+
+        _removePendingChange(id);
+        _applyChange(change.changeType, change.data);
+        emit ChangeExecuted(id, change.changeType, change.data);
+    }
+
+    /**
+     * @notice Drop a pending change
+     * @dev Requires the role that may propose the change
+     */
+    function cancelChange(bytes32 id) external {
+        PendingChange memory change = _pendingChange(id);
+        _checkRole(_changeRole(change.changeType));
+
+        _removePendingChange(id);
+        emit ChangeCancelled(id, change.changeType);
+    }
+
+    /**
+     * @notice Drop queued messages without applying them, oldest first
+     * @dev For messages that were forged or malformed during the incident that led
+     * to the pause; inspect them with getQueuedMessage first. Their nonces stay
+     * used, so discarded messages can never be delivered again. Works while paused.
+     * @param count Maximum number of messages to discard
+     * @return discarded Number of messages taken off the queue
+     */
+    function discardQueuedMessages(uint256 count) external onlyRole(PAUSER_ROLE) returns (uint256 discarded) {
+        while (discarded < count && queueHead < queuedMessages.length) {
+            uint256 index = queueHead;
+            delete queuedMessages[index];
+            queueHead++;
+            discarded++;
+            emit QueuedMessageDiscarded(index);
+        }
+    }
+
+    // Admin functions
+
+    /**
+     * @notice Choose whether ratings older than the stored one are ignored or revert
+     * @dev IGNORE lets relayers finish delivery instead of retrying a message that can never apply
+     */
+    function setOutOfOrderPolicy(OutOfOrderPolicy _policy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        outOfOrderPolicy = _policy;
+        emit OutOfOrderPolicyUpdated(_policy);
+    }
+
+    /**
+     * @notice Choose whether messages delivered while paused are rejected or queued
+     */
+    function setPausedMessagePolicy(PausedMessagePolicy _policy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        pausedMessagePolicy = _policy;
+        emit PausedMessagePolicyUpdated(_policy);
+    }
+
+    /**
+     * @notice Set how many ratings are retained per borrower
+     * @dev Existing buffers are resized on their next write; shrinking hides the
+     * oldest entries immediately
+     */
+    function setRatingHistoryDepth(uint256 _depth) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setRatingHistoryDepth(_depth);
+    }
+
+    /**
+     * @notice Set where requestRatingRefresh dispatches refresh requests
+     * @dev The recipient must already be a registered sender for `_domain` so
+     * requests only go to a sender this consumer accepts ratings from
+     * @param _recipient RatingSender on `_domain` as bytes32, zero to disable refreshes
+     */
+    function setRefreshRoute(uint32 _domain, bytes32 _recipient) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_recipient != bytes32(0) && !senderSets[_domain].contains(_recipient)) {
+            revert SenderNotFound(_domain, _recipient);
+        }
+        refreshDomain = _domain;
+        refreshRecipient = _recipient;
+        emit RefreshRouteUpdated(_domain, _recipient);
+    }
+
+    /**
+     * @notice Register a contract to be called through IRatingListener whenever a
+     * borrower's effective score changes
+     * @dev Capped at MAX_RATING_LISTENERS since every delivery calls each of them
+     */
+    function addRatingListener(address _listener) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_listener.code.length == 0 || ratingListeners.length() >= MAX_RATING_LISTENERS) {
+            revert InvalidRatingListener(_listener);
+        }
+        if (!ratingListeners.add(_listener)) revert InvalidRatingListener(_listener);
+        emit RatingListenerAdded(_listener);
+    }
+
+    function removeRatingListener(address _listener) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (!ratingListeners.remove(_listener)) revert InvalidRatingListener(_listener);
+        emit RatingListenerRemoved(_listener);
+    }
+
+    // Internal functions
+    function _setDefaultLtvTiers() internal {
+        ltvTiers.push(LtvTier(80, 7500, 8000, 10500));
+        ltvTiers.push(LtvTier(50, 6000, 7000, 10750));
+        ltvTiers.push(LtvTier(0, 4000, 5000, 11000));
+        emit LtvTiersUpdated(ltvTiers);
+    }
+
+    /**
+     * @dev 50% threshold / 10% bonus, raised to cover a defaultLTV configured above 50%
+     */
+    function _seedDefaultLiquidationParams() internal {
+        uint256 threshold = defaultLTV * 100 > 5000 ? defaultLTV * 100 : 5000;
+        _setDefaultLiquidationParams(uint16(threshold), threshold > 9000 ? 10000 : 11000);
+    }
+
+    function _setDefaultLiquidationParams(uint16 _liquidationThresholdBps, uint16 _liquidationBonusBps) internal {
+        LtvTierLogic.validateRiskParams(defaultLTV * 100, _liquidationThresholdBps, _liquidationBonusBps);
+        defaultLiquidationThresholdBps = _liquidationThresholdBps;
+        defaultLiquidationBonusBps = _liquidationBonusBps;
+        emit DefaultLiquidationParamsUpdated(_liquidationThresholdBps, _liquidationBonusBps);
+    }
+
+    function _proposeChange(ChangeType _changeType, bytes memory _data) internal returns (bytes32 id) {
+        id = keccak256(abi.encode(_changeType, _data, ++changeNonce));
+        uint256 eta = block.timestamp + changeDelay;
+
+        pendingChanges[id] = PendingChange(_changeType, eta, _data);
+        pendingChangeIds.add(id);
+        emit ChangeProposed(id, _changeType, _data, eta);
+    }
+
+    function _pendingChange(bytes32 _id) internal view returns (PendingChange memory) {
+        if (!pendingChangeIds.contains(_id)) revert ChangeNotFound(_id);
+        return pendingChanges[_id];
+    }
+
+    function _removePendingChange(bytes32 _id) internal {
+        pendingChangeIds.remove(_id);
+        delete pendingChanges[_id];
+    }
+
+    function _changeRole(ChangeType _changeType) internal pure returns (bytes32) {
+        if (
+            _changeType == ChangeType.MAX_RATING_AGE ||
+            _changeType == ChangeType.DEFAULT_LTV ||
+            _changeType >= ChangeType.DEFAULT_LIQUIDATION_PARAMS
+        ) {
+            return RISK_PARAMETER_MANAGER_ROLE;
+        }
+        return DEFAULT_ADMIN_ROLE;
+    }
+
+    function _applyChange(ChangeType _changeType, bytes memory _data) internal {
+        if (_changeType == ChangeType.MAX_RATING_AGE) {
+            maxRatingAge = abi.decode(_data, (uint256));
+            emit MaxRatingAgeUpdated(maxRatingAge);
+        } else if (_changeType == ChangeType.DEFAULT_LTV) {
+            uint256 newDefaultLTV = abi.decode(_data, (uint256));
+            if (newDefaultLTV * 100 > defaultLiquidationThresholdBps) {
+                revert InvalidLiquidationThreshold(defaultLiquidationThresholdBps);
+            }
+            defaultLTV = newDefaultLTV;
+            emit DefaultLTVUpdated(newDefaultLTV);
+        } else if (_changeType == ChangeType.ADD_AUTHORIZED_SENDER) {
+            (uint32 sourceDomain, bytes32 sender, uint256 expiresAt) = abi.decode(_data, (uint32, bytes32, uint256));
+            _addAuthorizedSender(sourceDomain, sender, expiresAt);
+        } else if (_changeType == ChangeType.MAILBOX) {
+            mailbox = abi.decode(_data, (address));
+            emit MailboxUpdated(mailbox);
+        } else if (_changeType == ChangeType.CHANGE_DELAY) {
+            changeDelay = abi.decode(_data, (uint256));
+            emit ChangeDelayUpdated(changeDelay);
+        } else if (_changeType == ChangeType.INTERCHAIN_SECURITY_MODULE) {
+            address previousModule = address(interchainSecurityModule);
+            address module = abi.decode(_data, (address));
+            interchainSecurityModule = IInterchainSecurityModule(module);
+            emit InterchainSecurityModuleUpdated(previousModule, module);
+        } else if (_changeType == ChangeType.DEFAULT_LIQUIDATION_PARAMS) {
+            (uint16 thresholdBps, uint16 bonusBps) = abi.decode(_data, (uint16, uint16));
+            _setDefaultLiquidationParams(thresholdBps, bonusBps);
+        } else if (_changeType == ChangeType.LTV_TIERS) {
+            LtvTier[] memory tiers = abi.decode(_data, (LtvTier[]));
+            LtvTierLogic.write(ltvTiers, tiers);
+            emit LtvTiersUpdated(tiers);
+        } else if (_changeType == ChangeType.ASSET_LTV_TIERS) {
+            (address asset, LtvTier[] memory tiers) = abi.decode(_data, (address, LtvTier[]));
+            LtvTierLogic.write(assetLtvTiers[asset], tiers);
+            ltvAssets.add(asset);
+            emit AssetLtvTiersUpdated(asset, tiers);
+        } else if (_changeType == ChangeType.REMOVE_ASSET_LTV_TIERS) {
+            address asset = abi.decode(_data, (address));
+            if (!ltvAssets.remove(asset)) revert AssetNotConfigured(asset);
+            delete assetLtvTiers[asset];
+            emit AssetLtvTiersRemoved(asset);
+        } else if (_changeType == ChangeType.RATING_AGGREGATION) {
+            (AggregationMode mode, address[] memory raters, uint256 quorum) =
+                abi.decode(_data, (AggregationMode, address[], uint256));
+            _setRatingAggregation(mode, raters, quorum);
+        } else if (_changeType == ChangeType.CIRCUIT_BREAKER) {
+            (uint256 maxLargeChanges, uint256 scoreDelta, uint256 window) =
+                abi.decode(_data, (uint256, uint256, uint256));
+            breakerMaxLargeChanges = maxLargeChanges;
+            breakerScoreDelta = scoreDelta;
+            breakerWindow = window;
+            breakerWindowStart = block.timestamp;
+            breakerLargeChanges = 0;
+            emit CircuitBreakerUpdated(maxLargeChanges, scoreDelta, window);
+        } else {
+            (uint32 sourceDomain, bytes32 sender) = abi.decode(_data, (uint32, bytes32));
+            if (!senderSets[sourceDomain].remove(sender)) revert SenderNotFound(sourceDomain, sender);
+            delete senderExpiries[sourceDomain][sender];
+            emit AuthorizedSenderRemoved(sourceDomain, sender);
+        }
+    }
+
+    function _setDefaultChangeDelay() internal {
+        changeDelay = DEFAULT_CHANGE_DELAY;
+        emit ChangeDelayUpdated(DEFAULT_CHANGE_DELAY);
+    }
+
+    function _addAuthorizedSender(uint32 _sourceDomain, bytes32 _sender, uint256 _expiresAt) internal {
+        senderSets[_sourceDomain].add(_sender);
+        senderExpiries[_sourceDomain][_sender] = _expiresAt;
+        emit AuthorizedSenderAdded(_sourceDomain, _sender, _expiresAt);
+    }
+
+    /**
+     * @dev Replaces the aggregation rater set; reverts on a zero or repeated rater
+     */
+    function _setRatingAggregation(AggregationMode _mode, address[] memory _raters, uint256 _quorum) internal {
+        address[] memory previousRaters = aggregationRaters.values();
+        for (uint256 i = 0; i < previousRaters.length; i++) {
+            aggregationRaters.remove(previousRaters[i]);
+        }
+        for (uint256 i = 0; i < _raters.length; i++) {
+            if (_raters[i] == address(0) || !aggregationRaters.add(_raters[i])) revert InvalidAggregation();
+        }
+
+        aggregationMode = _mode;
+        aggregationQuorum = _quorum;
+        emit RatingAggregationUpdated(_mode, _raters, _quorum);
+    }
+
+    function _setRatingHistoryDepth(uint256 _depth) internal {
+        if (_depth == 0 || _depth > MAX_RATING_HISTORY_DEPTH) revert InvalidHistoryDepth(_depth);
+        ratingHistoryDepth = _depth;
+        emit RatingHistoryDepthUpdated(_depth);
+    }
+}
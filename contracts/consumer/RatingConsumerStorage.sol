@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "../interfaces/IInterchainSecurityModule.sol";
+import "../libraries/LtvTierLogic.sol";
+import "../libraries/RatingHistoryLogic.sol";
+
+/**
+ * @notice State, events and errors shared by RatingConsumer and the
+ * RatingConsumerAdmin module it delegates to
+ * @dev Only ever append state variables; both contracts read the same slots
+ */
+abstract contract RatingConsumerStorage is ISpecifiesInterchainSecurityModule {
+    enum OutOfOrderPolicy {
+        IGNORE,  // emit OutOfOrderRatingIgnored and keep the newer rating
+        REVERT   // revert so the whole message fails
+    }
+
+    enum PausedMessagePolicy {
+        REJECT,  // revert so the relayer retries after unpause
+        QUEUE    // store the message for processQueuedMessages
+    }
+
+    // Setters that only take effect after changeDelay
+    enum ChangeType {
+        MAX_RATING_AGE,     // abi.encode(uint256 maxAge)
+        DEFAULT_LTV,        // abi.encode(uint256 ltv)
+        ADD_AUTHORIZED_SENDER,    // abi.encode(uint32 sourceDomain, bytes32 sender, uint256 expiresAt)
+        MAILBOX,                  // abi.encode(address mailbox)
+        CHANGE_DELAY,             // abi.encode(uint256 delay)
+        REMOVE_AUTHORIZED_SENDER, // abi.encode(uint32 sourceDomain, bytes32 sender)
+        INTERCHAIN_SECURITY_MODULE, // abi.encode(address module)
+        DEFAULT_LIQUIDATION_PARAMS, // abi.encode(uint16 thresholdBps, uint16 bonusBps)
+        LTV_TIERS,                  // abi.encode(LtvTier[] tiers)
+        ASSET_LTV_TIERS,            // abi.encode(address asset, LtvTier[] tiers)
+        REMOVE_ASSET_LTV_TIERS,     // abi.encode(address asset)
+        RATING_AGGREGATION,         // abi.encode(AggregationMode mode, address[] raters, uint256 quorum)
+        CIRCUIT_BREAKER             // abi.encode(uint256 maxLargeChanges, uint256 scoreDelta, uint256 window)
+    }
+
+    // How getBorrowerLTV turns ratings into the score it prices
+    enum AggregationMode {
+        NONE,    // latest rating from any rater
+        MEDIAN,  // median of the aggregation raters' fresh ratings
+        MIN      // lowest of the aggregation raters' fresh ratings
+    }
+
+    struct PendingChange {
+        ChangeType changeType;
+        uint256 eta;  // earliest execution time
+        bytes data;
+    }
+
+    struct QueuedMessage {
+        uint32 origin;
+        bytes32 sender;
+        bytes body;
+    }
+
+    // The revocation message behind revokedAt, to order ratings from the same second
+    struct Revocation {
+        bytes32 source;  // keccak256(origin, sender)
+        uint256 nonce;
+        uint256 receivedAt;
+    }
+
+    uint256 public constant MAX_LTV_BPS = 10_000;
+    uint256 public constant MAX_LTV_TIERS = 16;
+    uint256 public constant DEFAULT_RATING_HISTORY_DEPTH = 16;
+    uint256 public constant MAX_RATING_HISTORY_DEPTH = 128;
+    uint256 public constant MAX_CHANGE_DELAY = 30 days;
+    uint256 public constant DEFAULT_CHANGE_DELAY = 2 days;  // set by initialize and initializeV2
+    uint256 public constant MAX_AGGREGATION_RATERS = 16;
+    uint256 public constant MAX_RATING_LISTENERS = 8;
+    uint256 public constant LISTENER_GAS_LIMIT = 200_000;  // per IRatingListener callback
+    uint256 public constant MAX_LISTENER_GAS_PER_MESSAGE = 2_000_000;  // across every borrower in a message
+    uint256 public constant MAX_LISTENER_REVERT_DATA = 256;  // bytes of a failed callback's revert data kept
+    uint256 public constant MIN_QUEUED_MESSAGE_GAS = 200_000;  // gasleft() needed to attempt a queued message
+
+    // State Variables
+    address public mailbox;
+    uint256 public maxRatingAge;
+    uint256 public defaultLTV;
+
+    mapping(uint32 => bytes32) public authorizedSenders;  // deprecated: replaced by senderSets, see initializeV2
+    mapping(address => Rating) public borrowerRatings;
+    mapping(bytes32 => bool) public processedMessages;  // deprecated: replaced by lastNonces
+    IInterchainSecurityModule public interchainSecurityModule;  // zero => mailbox defaultIsm
+    mapping(uint32 => mapping(bytes32 => uint256)) public lastNonces;  // sourceDomain => sender => last nonce
+    LtvTier[] internal ltvTiers;  // ordered by strictly decreasing minScore
+    mapping(address => LtvTier[]) internal assetLtvTiers;  // asset => curve overriding ltvTiers
+    EnumerableSet.AddressSet internal ltvAssets;
+    uint16 public defaultLiquidationThresholdBps;  // paired with defaultLTV
+    uint16 public defaultLiquidationBonusBps;
+    uint256 public ratingHistoryDepth;  // ratings retained per borrower
+    mapping(address => RatingHistory) internal ratingHistories;
+    mapping(uint32 => mapping(bytes32 => mapping(uint256 => bool))) public processedNonces;  // sourceDomain => sender => nonce
+    mapping(address => uint256) public ratingNonces;  // borrower => nonce of the message that set the stored rating, see ratingSources
+    OutOfOrderPolicy public outOfOrderPolicy;
+    PausedMessagePolicy public pausedMessagePolicy;
+    QueuedMessage[] internal queuedMessages;
+    uint256 public queueHead;  // index of the next queued message to process
+    // Circuit breaker: pause when more than breakerMaxLargeChanges ratings move by more
+    // than breakerScoreDelta points within breakerWindow seconds (zero max disables it)
+    uint256 public breakerMaxLargeChanges;
+    uint256 public breakerScoreDelta;
+    uint256 public breakerWindow;
+    uint256 public breakerWindowStart;
+    uint256 public breakerLargeChanges;  // large changes seen since breakerWindowStart
+    uint256 public changeDelay;  // timelock for ChangeType setters
+    uint256 public changeNonce;  // salts change ids so identical proposals get distinct ids
+    mapping(bytes32 => PendingChange) internal pendingChanges;
+    EnumerableSet.Bytes32Set internal pendingChangeIds;
+    mapping(uint32 => EnumerableSet.Bytes32Set) internal senderSets;  // sourceDomain => authorized senders
+    mapping(uint32 => mapping(bytes32 => uint256)) public senderExpiries;  // sourceDomain => sender => expiry, zero => never
+    AggregationMode public aggregationMode;
+    uint256 public aggregationQuorum;  // fresh ratings needed before the aggregate applies
+    EnumerableSet.AddressSet internal aggregationRaters;
+    mapping(address => mapping(address => Rating)) public raterRatings;  // borrower => rater => latest rating
+    mapping(address => uint256) public revokedAt;  // borrower => issue time of the latest revocation
+    uint32 public refreshDomain;  // source domain refresh requests are dispatched to
+    bytes32 public refreshRecipient;  // RatingSender on refreshDomain, zero => refreshes disabled
+    uint256 public refreshNonce;
+    EnumerableSet.AddressSet internal ratingListeners;  // IRatingListener contracts notified of score changes
+    mapping(address => bytes32) public ratingSources;  // borrower => keccak256(origin, sender) of the message that set the stored rating
+    mapping(address => Revocation) public revocations;  // borrower => latest revocation, zero for ones applied before it was kept
+
+    // Events
+    event RatingUpdated(
+        address indexed borrower,
+        uint8 score,
+        uint256 timestamp,
+        uint256 receivedAt,
+        address indexed rater
+    );
+    event RatingRevoked(address indexed borrower, uint256 timestamp, address indexed rater, string reason);
+    event RatingBatchApplied(uint32 indexed origin, uint256 nonce, uint256 count);
+    event StaleRatingRejected(address indexed borrower, uint256 ratingTimestamp, uint256 currentTime);
+    event ReplayAttemptBlocked(bytes32 messageHash);
+    event AuthorizedSenderAdded(uint32 indexed sourceDomain, bytes32 indexed sender, uint256 expiresAt);
+    event AuthorizedSenderRemoved(uint32 indexed sourceDomain, bytes32 indexed sender);
+    event MailboxUpdated(address indexed newMailbox);
+    event MaxRatingAgeUpdated(uint256 newMaxAge);
+    event DefaultLTVUpdated(uint256 newDefaultLTV);
+    event InterchainSecurityModuleUpdated(address indexed previousModule, address indexed newModule);
+    event LtvTiersUpdated(LtvTier[] tiers);
+    event AssetLtvTiersUpdated(address indexed asset, LtvTier[] tiers);
+    event AssetLtvTiersRemoved(address indexed asset);
+    event DefaultLiquidationParamsUpdated(uint16 liquidationThresholdBps, uint16 liquidationBonusBps);
+    event RatingHistoryDepthUpdated(uint256 newDepth);
+    event OutOfOrderRatingIgnored(
+        address indexed borrower,
+        uint8 score,
+        uint256 timestamp,
+        uint256 nonce,
+        uint256 storedTimestamp
+    );
+    event OutOfOrderPolicyUpdated(OutOfOrderPolicy policy);
+    event PausedMessagePolicyUpdated(PausedMessagePolicy policy);
+    event MessageQueued(uint256 indexed index, uint32 indexed origin, uint256 nonce);
+    event QueuedMessageProcessed(uint256 indexed index);
+    event QueuedMessageFailed(uint256 indexed index, bytes reason);
+    event QueuedMessageDiscarded(uint256 indexed index);
+    event CircuitBreakerUpdated(uint256 maxLargeChanges, uint256 scoreDelta, uint256 window);
+    event CircuitBreakerTripped(uint256 largeChanges, uint256 windowStart);
+    event ChangeProposed(bytes32 indexed id, ChangeType indexed changeType, bytes data, uint256 eta);
+    event ChangeExecuted(bytes32 indexed id, ChangeType indexed changeType, bytes data);
+    event ChangeCancelled(bytes32 indexed id, ChangeType indexed changeType);
+    event ChangeDelayUpdated(uint256 newDelay);
+    event RaterRatingRecorded(address indexed borrower, address indexed rater, uint8 score, uint256 timestamp);
+    event RatingAggregationUpdated(AggregationMode mode, address[] raters, uint256 quorum);
+    event RatingListenerAdded(address indexed listener);
+    event RatingListenerRemoved(address indexed listener);
+    event RatingListenerFailed(address indexed listener, address indexed borrower, bytes reason);
+    event RatingListenersSkipped(address indexed borrower, uint256 count);
+    event RefreshRouteUpdated(uint32 indexed domain, bytes32 recipient);
+    event RatingRefreshRequested(
+        address indexed borrower,
+        address indexed requester,
+        uint256 nonce,
+        bytes32 messageId
+    );
+
+    // Errors
+    error UnauthorizedMailbox();
+    error UnauthorizedSender();
+    error InvalidRatingScore();
+    error StaleRating();
+    error ReplayAttack();
+    error OutOfOrderRating(address borrower, uint256 storedTimestamp, uint256 timestamp);
+    error MalformedMessage();
+    error UnsupportedMessageVersion(uint8 version);
+    error UnsupportedMessageType(uint8 messageType);
+    error MalformedBatch();
+    error InvalidAddress();
+    error InvalidLtvTierCount(uint256 count);
+    error LtvTierNotDescending(uint256 index);
+    error LtvExceedsMaximum(uint256 ltvBps);
+    error InvalidLiquidationThreshold(uint256 liquidationThresholdBps);
+    error InvalidLiquidationBonus(uint256 liquidationBonusBps);
+    error AssetNotConfigured(address asset);
+    error InvalidHistoryDepth(uint256 depth);
+    error InvalidCircuitBreaker();
+    error UnauthorizedCaller();
+    error ChangeNotFound(bytes32 id);
+    error ChangeNotReady(bytes32 id, uint256 eta);
+    error InvalidChangeDelay(uint256 delay);
+    error InvalidSenderExpiry(uint256 expiresAt);
+    error SenderNotFound(uint32 sourceDomain, bytes32 sender);
+    error InvalidAggregation();
+    error RefreshNotConfigured();
+    error InvalidRatingListener(address listener);
+    error InsufficientFee(uint256 required, uint256 provided);
+    error TransferFailed();
+}
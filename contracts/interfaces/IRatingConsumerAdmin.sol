@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../consumer/RatingConsumerStorage.sol";
+
+/**
+ * @notice Functions RatingConsumer forwards to its RatingConsumerAdmin module
+ * @dev Implemented by both so the forwarded selectors always match
+ */
+interface IRatingConsumerAdmin {
+    // Initializers
+    function initialize(address _mailbox) external;
+    function initializeV2(uint32[] calldata _sourceDomains) external;
+
+    // Timelocked changes
+    function proposeMaxRatingAge(uint256 _newMaxAge) external returns (bytes32);
+    function proposeDefaultLTV(uint256 _newDefaultLTV) external returns (bytes32);
+    function proposeAddAuthorizedSender(uint32 _sourceDomain, bytes32 _sender, uint256 _expiresAt)
+        external
+        returns (bytes32);
+    function proposeRemoveAuthorizedSender(uint32 _sourceDomain, bytes32 _sender) external returns (bytes32);
+    function proposeMailbox(address _newMailbox) external returns (bytes32);
+    function proposeInterchainSecurityModule(address _module) external returns (bytes32);
+    function proposeChangeDelay(uint256 _newDelay) external returns (bytes32);
+    function proposeDefaultLiquidationParams(uint16 _liquidationThresholdBps, uint16 _liquidationBonusBps)
+        external
+        returns (bytes32);
+    function proposeLtvTiers(LtvTier[] calldata _tiers) external returns (bytes32);
+    function proposeAssetLtvTiers(address _asset, LtvTier[] calldata _tiers) external returns (bytes32);
+    function proposeRemoveAssetLtvTiers(address _asset) external returns (bytes32);
+    function proposeRatingAggregation(
+        RatingConsumerStorage.AggregationMode _mode,
+        address[] calldata _raters,
+        uint256 _quorum
+    ) external returns (bytes32);
+    function proposeCircuitBreaker(uint256 _maxLargeChanges, uint256 _scoreDelta, uint256 _window)
+        external
+        returns (bytes32);
+    function executeChange(bytes32 id) external;
+    function cancelChange(bytes32 id) external;
+
+    // Pause queue
+    function discardQueuedMessages(uint256 count) external returns (uint256);
+
+    // Immediate admin setters
+    function setOutOfOrderPolicy(RatingConsumerStorage.OutOfOrderPolicy _policy) external;
+    function setPausedMessagePolicy(RatingConsumerStorage.PausedMessagePolicy _policy) external;
+    function setRatingHistoryDepth(uint256 _depth) external;
+    function setRefreshRoute(uint32 _domain, bytes32 _recipient) external;
+    function addRatingListener(address _listener) external;
+    function removeRatingListener(address _listener) external;
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+/**
+ * @notice Callback RatingConsumer makes to registered listeners when the score it
+ * prices a borrower at changes
+ * @dev Called with a bounded gas stipend; reverts are caught and reported with
+ * RatingListenerFailed, so listeners cannot block rating delivery
+ */
+interface IRatingListener {
+    /**
+     * @param borrower Borrower whose effective score changed
+     * @param oldScore Previous effective score, 0 when the borrower had no valid rating
+     * @param newScore New effective score, 0 when the borrower has no valid rating
+     * @param newLtv LTV percentage getBorrowerLTV(borrower) now returns
+     */
+    function onRatingUpdated(address borrower, uint8 oldScore, uint8 newScore, uint256 newLtv) external;
+}
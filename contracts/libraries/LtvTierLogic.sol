@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+struct LtvTier {
+    uint8 minScore;
+    uint16 ltvBps;
+    uint16 liquidationThresholdBps;
+    uint16 liquidationBonusBps;  // e.g. 10500 = 5% bonus to liquidators
+}
+
+/**
+ * @notice Validation and lookup for RatingConsumer's score -> risk parameter curves
+ * @dev Deployed separately and linked to keep RatingConsumer under the contract
+ * size limit. Errors mirror the ones declared on RatingConsumer.
+ */
+library LtvTierLogic {
+
+    uint256 internal constant MAX_LTV_BPS = 10_000;
+    uint256 internal constant MAX_LTV_TIERS = 16;
+
+    error InvalidRatingScore();
+    error InvalidLtvTierCount(uint256 count);
+    error LtvTierNotDescending(uint256 index);
+    error LtvExceedsMaximum(uint256 ltvBps);
+    error InvalidLiquidationThreshold(uint256 liquidationThresholdBps);
+    error InvalidLiquidationBonus(uint256 liquidationBonusBps);
+
+    /**
+     * @notice Replace `target` with `tiers` after validating every entry
+     * @param tiers Tiers ordered by strictly decreasing minScore
+     */
+    function write(LtvTier[] storage target, LtvTier[] memory tiers) external {
+        validate(tiers);
+
+        while (target.length > 0) target.pop();
+        for (uint256 i = 0; i < tiers.length; i++) {
+            target.push(tiers[i]);
+        }
+    }
+
+    /**
+     * @notice Revert unless `tiers` is a table `write` accepts
+     */
+    function validate(LtvTier[] memory tiers) public pure {
+        if (tiers.length == 0 || tiers.length > MAX_LTV_TIERS) revert InvalidLtvTierCount(tiers.length);
+
+        for (uint256 i = 0; i < tiers.length; i++) {
+            if (tiers[i].minScore > 100) revert InvalidRatingScore();
+            validateRiskParams(tiers[i].ltvBps, tiers[i].liquidationThresholdBps, tiers[i].liquidationBonusBps);
+            if (i > 0 && tiers[i].minScore >= tiers[i - 1].minScore) revert LtvTierNotDescending(i);
+        }
+    }
+
+    /**
+     * @notice First tier whose minScore `score` meets; `found` is false when the
+     * score is below every threshold
+     */
+    function find(LtvTier[] storage tiers, uint8 score) external view returns (LtvTier memory tier, bool found) {
+        for (uint256 i = 0; i < tiers.length; i++) {
+            if (score >= tiers[i].minScore) return (tiers[i], true);
+        }
+    }
+
+    /**
+     * @dev Mirrors Aave's reserve config checks: ltv <= threshold <= 100% and the
+     * bonus is above 100% without letting threshold * bonus exceed 100%
+     */
+    function validateRiskParams(uint256 ltvBps, uint256 thresholdBps, uint256 bonusBps) public pure {
+        if (ltvBps > MAX_LTV_BPS) revert LtvExceedsMaximum(ltvBps);
+        if (thresholdBps < ltvBps || thresholdBps > MAX_LTV_BPS) revert InvalidLiquidationThreshold(thresholdBps);
+        if (bonusBps < MAX_LTV_BPS || thresholdBps * bonusBps > MAX_LTV_BPS * MAX_LTV_BPS) {
+            revert InvalidLiquidationBonus(bonusBps);
+        }
+    }
+}
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+struct Rating {
+    uint8 score;
+    uint256 timestamp;
+    uint256 receivedAt;
+    address rater;  // zero for ratings delivered before messages carried it
+    uint256 expiresAt;  // zero => only maxRatingAge applies
+    bytes32 commitment;  // private ratings only: hash of the exact score, `score` holds the tier floor
+    // The message that carried the rating, to order it against a same-second revocation;
+    // zero for ratings stored before it was kept. Sender nonces count up from 1, so 64 bits never wrap.
+    bytes24 source;  // leading bytes of keccak256(origin, sender)
+    uint64 nonce;
+}
+
+// Ring buffer of past ratings; entry for sequence number s lives at s % depth
+struct RatingHistory {
+    uint256 count;  // ratings ever recorded
+    uint256 depth;  // ring size the entries were written with
+    mapping(uint256 => Rating) entries;
+}
+
+/**
+ * @notice Per-borrower rating history kept by RatingConsumer
+ * @dev Deployed separately and linked to keep RatingConsumer under the contract
+ * size limit. `depth` is always the consumer's current ratingHistoryDepth;
+ * buffers written with another depth are resized on their next write.
+ */
+library RatingHistoryLogic {
+
+    function record(RatingHistory storage history, Rating memory rating, uint256 depth) external {
+        if (history.depth != depth) _resize(history, depth);
+
+        history.entries[history.count % history.depth] = rating;
+        history.count++;
+    }
+
+    /**
+     * @return ratings Up to `limit` entries, newest first, after skipping `offset`
+     * @return total Number of entries currently retained
+     */
+    function page(RatingHistory storage history, uint256 depth, uint256 offset, uint256 limit)
+        external
+        view
+        returns (Rating[] memory ratings, uint256 total)
+    {
+        total = _retainedCount(history, depth);
+        if (offset >= total) return (new Rating[](0), total);
+
+        uint256 length = total - offset < limit ? total - offset : limit;
+        ratings = new Rating[](length);
+        for (uint256 i = 0; i < length; i++) {
+            ratings[i] = _entry(history, offset + i);
+        }
+    }
+
+    /**
+     * @dev Newest retained entry received at or before `timestamp`
+     */
+    function at(RatingHistory storage history, uint256 depth, uint256 timestamp)
+        external
+        view
+        returns (Rating memory rating, bool found)
+    {
+        uint256 total = _retainedCount(history, depth);
+        for (uint256 i = 0; i < total; i++) {
+            rating = _entry(history, i);
+            if (rating.receivedAt <= timestamp) return (rating, true);
+        }
+        return (Rating(0, 0, 0, address(0), 0, bytes32(0), bytes24(0), 0), false);
+    }
+
+    /**
+     * @dev Re-slot retained entries into a ring of the new depth, keeping the newest
+     */
+    function _resize(RatingHistory storage history, uint256 newDepth) private {
+        uint256 oldDepth = history.depth;
+        uint256 retained = _retainedCount(history, newDepth);
+
+        Rating[] memory entries = new Rating[](retained);
+        for (uint256 i = 0; i < retained; i++) {
+            entries[i] = _entry(history, i);
+        }
+        for (uint256 slot = newDepth; slot < oldDepth; slot++) {
+            delete history.entries[slot];
+        }
+
+        history.depth = newDepth;
+        for (uint256 i = 0; i < retained; i++) {
+            history.entries[(history.count - 1 - i) % newDepth] = entries[i];
+        }
+    }
+
+    function _retainedCount(RatingHistory storage history, uint256 depth) private view returns (uint256 retained) {
+        retained = history.count;
+        if (retained > history.depth) retained = history.depth;
+        if (retained > depth) retained = depth;
+    }
+
+    /// @dev `index` counts back from the newest entry
+    function _entry(RatingHistory storage history, uint256 index) private view returns (Rating memory) {
+        return history.entries[(history.count - 1 - index) % history.depth];
+    }
+}
@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+/**
+ * @notice Wire format for messages exchanged between RatingSender and RatingConsumer
+ * @dev Layout:
+ *   [0]      version
+ *   [1]      message type
+ *   [2:34]   nonce (uint256, per sender and destination)
+ *   [34:]    abi encoded payload for the message type
+ * Only the current version is decoded: the 1.0.0 sender sent bare
+ * abi.encode(borrower, score, timestamp) bodies, whose first byte is zero, so
+ * its in-flight messages must be delivered before either side is upgraded.
+ * Refresh requests travel the other way, from a consumer back to its sender,
+ * with a nonce per consumer.
+ */
+library RatingMessage {
+
+    uint8 internal constant VERSION = 3;
+    uint256 internal constant HEADER_LENGTH = 34;
+
+    enum MessageType {
+        RATING,
+        BATCH,
+        REVOCATION,
+        CONFIG,
+        PRIVATE_RATING,
+        REFRESH_REQUEST
+    }
+
+    function encodeRating(
+        uint256 _nonce,
+        address borrower,
+        uint8 score,
+        uint256 timestamp,
+        address rater,
+        uint256 expiresAt
+    ) internal pure returns (bytes memory) {
+        return _encode(MessageType.RATING, _nonce, abi.encode(borrower, score, timestamp, rater, expiresAt));
+    }
+
+    function encodeBatch(
+        uint256 _nonce,
+        address[] memory borrowers,
+        uint8[] memory scores,
+        uint256 timestamp,
+        address rater,
+        uint256 expiresAt
+    ) internal pure returns (bytes memory) {
+        return _encode(MessageType.BATCH, _nonce, abi.encode(borrowers, scores, timestamp, rater, expiresAt));
+    }
+
+    /**
+     * @dev A rating carrying the floor score of the consumer tier it falls in and a
+     * commitment to the exact score instead of the score itself
+     */
+    function encodePrivateRating(
+        uint256 _nonce,
+        address borrower,
+        uint8 floorScore,
+        bytes32 commitment,
+        uint256 timestamp,
+        address rater,
+        uint256 expiresAt
+    ) internal pure returns (bytes memory) {
+        return _encode(
+            MessageType.PRIVATE_RATING,
+            _nonce,
+            abi.encode(borrower, floorScore, commitment, timestamp, rater, expiresAt)
+        );
+    }
+
+    function encodeRevocation(
+        uint256 _nonce,
+        address borrower,
+        uint256 timestamp,
+        address rater,
+        string memory reason
+    ) internal pure returns (bytes memory) {
+        return _encode(MessageType.REVOCATION, _nonce, abi.encode(borrower, timestamp, rater, reason));
+    }
+
+    /**
+     * @dev Asks the sender for a new rating of `borrower` on behalf of `requester`
+     */
+    function encodeRefreshRequest(uint256 _nonce, address borrower, address requester)
+        internal
+        pure
+        returns (bytes memory)
+    {
+        return _encode(MessageType.REFRESH_REQUEST, _nonce, abi.encode(borrower, requester));
+    }
+
+    function version(bytes calldata _message) internal pure returns (uint8) {
+        return uint8(_message[0]);
+    }
+
+    function isSupportedVersion(uint8 _version) internal pure returns (bool) {
+        return _version == VERSION;
+    }
+
+    function messageType(bytes calldata _message) internal pure returns (uint8) {
+        return uint8(_message[1]);
+    }
+
+    function nonce(bytes calldata _message) internal pure returns (uint256) {
+        return uint256(bytes32(_message[2:HEADER_LENGTH]));
+    }
+
+    function payload(bytes calldata _message) internal pure returns (bytes calldata) {
+        return _message[HEADER_LENGTH:];
+    }
+
+    function decodeRating(bytes calldata _message)
+        internal
+        pure
+        returns (address borrower, uint8 score, uint256 timestamp, address rater, uint256 expiresAt)
+    {
+        return abi.decode(payload(_message), (address, uint8, uint256, address, uint256));
+    }
+
+    function decodeBatch(bytes calldata _message)
+        internal
+        pure
+        returns (address[] memory borrowers, uint8[] memory scores, uint256 timestamp, address rater, uint256 expiresAt)
+    {
+        return abi.decode(payload(_message), (address[], uint8[], uint256, address, uint256));
+    }
+
+    function decodePrivateRating(bytes calldata _message)
+        internal
+        pure
+        returns (
+            address borrower,
+            uint8 floorScore,
+            bytes32 commitment,
+            uint256 timestamp,
+            address rater,
+            uint256 expiresAt
+        )
+    {
+        return abi.decode(payload(_message), (address, uint8, bytes32, uint256, address, uint256));
+    }
+
+    function decodeRevocation(bytes calldata _message)
+        internal
+        pure
+        returns (address borrower, uint256 timestamp, address rater, string memory reason)
+    {
+        return abi.decode(payload(_message), (address, uint256, address, string));
+    }
+
+    function decodeRefreshRequest(bytes calldata _message)
+        internal
+        pure
+        returns (address borrower, address requester)
+    {
+        return abi.decode(payload(_message), (address, address));
+    }
+
+    function _encode(MessageType _type, uint256 _nonce, bytes memory _payload)
+        private
+        pure
+        returns (bytes memory)
+    {
+        return abi.encodePacked(VERSION, uint8(_type), _nonce, _payload);
+    }
+}
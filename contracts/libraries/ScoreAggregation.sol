@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+/**
+ * @notice Combines the scores of several raters into one
+ * @dev Only the first `count` entries of `scores` are read; `count` must be non-zero
+ */
+library ScoreAggregation {
+
+    /**
+     * @dev Sorts the counted entries in place. Even counts average the two middle
+     * scores, rounding down.
+     */
+    function median(uint8[] memory scores, uint256 count) internal pure returns (uint8) {
+        for (uint256 i = 1; i < count; i++) {
+            uint8 score = scores[i];
+            uint256 j = i;
+            while (j > 0 && scores[j - 1] > score) {
+                scores[j] = scores[j - 1];
+                j--;
+            }
+            scores[j] = score;
+        }
+
+        uint256 middle = count / 2;
+        if (count % 2 == 1) return scores[middle];
+        return uint8((uint256(scores[middle - 1]) + scores[middle]) / 2);
+    }
+
+    function min(uint8[] memory scores, uint256 count) internal pure returns (uint8 lowest) {
+        lowest = scores[0];
+        for (uint256 i = 1; i < count; i++) {
+            if (scores[i] < lowest) lowest = scores[i];
+        }
+    }
+}
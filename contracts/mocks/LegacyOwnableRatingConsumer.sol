@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+/**
+ * @notice Ownable RatingConsumer layout from before role-based access, for upgrade tests
+ * @dev Only the leading state variables are kept; later ones are appended by RatingConsumer
+ */
+contract LegacyOwnableRatingConsumer is Initializable, OwnableUpgradeable {
+
+    address public mailbox;
+    uint256 public maxRatingAge;
+    uint256 public defaultLTV;
+    mapping(uint32 => bytes32) public authorizedSenders;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _mailbox) public initializer {
+        __Ownable_init(msg.sender);
+        mailbox = _mailbox;
+        maxRatingAge = 24 hours;
+        defaultLTV = 40;
+    }
+
+    function setAuthorizedSender(uint32 _sourceDomain, bytes32 _sender) external onlyOwner {
+        authorizedSenders[_sourceDomain] = _sender;
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "../interfaces/IMailbox.sol";
+
+/**
+ * @notice Ownable RatingSender layout from before role-based access, for upgrade tests
+ * @dev Only the leading state variables are kept; later ones are appended by RatingSender
+ */
+contract LegacyOwnableRatingSender is Initializable, OwnableUpgradeable {
+
+    IMailbox public mailbox;
+    mapping(uint32 => bytes32) public destinationRecipients;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _mailbox) public initializer {
+        __Ownable_init(msg.sender);
+        mailbox = IMailbox(_mailbox);
+    }
+
+    function setDestinationRecipient(uint32 _destinationDomain, bytes32 _recipient) external onlyOwner {
+        destinationRecipients[_destinationDomain] = _recipient;
+    }
+}
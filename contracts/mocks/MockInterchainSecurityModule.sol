@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../interfaces/IInterchainSecurityModule.sol";
+
+/**
+ * @notice Configurable ISM for local tests
+ * @dev Accepts every message until `setAccept(false)` is called
+ */
+contract MockInterchainSecurityModule is IInterchainSecurityModule {
+
+    bool public accept = true;
+    uint256 public verifyCount;
+
+    function moduleType() external pure returns (uint8) {
+        return uint8(Types.NULL);
+    }
+
+    function verify(bytes calldata, bytes calldata) external returns (bool) {
+        verifyCount++;
+        return accept;
+    }
+
+    function setAccept(bool _accept) external {
+        accept = _accept;
+    }
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../adapters/AaveGovernanceAdapter.sol";
+
+/**
+ * @notice Minimal Aave V3 style pool for local tests: borrow limits come from
+ * AaveGovernanceAdapter instead of per-reserve LTVs
+ * @dev Balances are plain numbers in the base currency; no tokens move
+ */
+contract MockLendingPool {
+
+    AaveGovernanceAdapter public immutable adapter;
+    mapping(address => uint256) public collateral;
+    mapping(address => uint256) public debt;
+
+    error BorrowLimitExceeded(uint256 available, uint256 requested);
+
+    constructor(address _adapter) {
+        adapter = AaveGovernanceAdapter(_adapter);
+    }
+
+    function supply(uint256 amount) external {
+        collateral[msg.sender] += amount;
+    }
+
+    function borrow(uint256 amount) external {
+        (, , uint256 availableBorrowsBase, ) = getUserAccountData(msg.sender);
+        if (amount > availableBorrowsBase) revert BorrowLimitExceeded(availableBorrowsBase, amount);
+        debt[msg.sender] += amount;
+    }
+
+    function repay(uint256 amount) external {
+        debt[msg.sender] -= amount;
+    }
+
+    /**
+     * @dev Subset of Aave V3 IPool.getUserAccountData
+     */
+    function getUserAccountData(address user)
+        public
+        view
+        returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 ltv)
+    {
+        totalCollateralBase = collateral[user];
+        totalDebtBase = debt[user];
+        ltv = adapter.getBorrowerLtvBps(user);
+
+        uint256 limit = totalCollateralBase * ltv / 10_000;
+        availableBorrowsBase = limit > totalDebtBase ? limit - totalDebtBase : 0;
+    }
+}
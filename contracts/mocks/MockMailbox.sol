@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../interfaces/IMailbox.sol";
+import "../interfaces/IMessageRecipient.sol";
+import "../interfaces/IInterchainSecurityModule.sol";
+import "../interfaces/hooks/IPostDispatchHook.sol";
+
+/**
+ * @notice In-process stand-in for a Hyperlane Mailbox used by local tests
+ * @dev One instance is deployed per simulated domain. Messages use the Hyperlane
+ * v3 wire format so an off-chain relayer can forward `Dispatch` payloads from the
+ * origin instance to `process` on the destination instance unchanged.
+ */
+contract MockMailbox is IMailbox {
+
+    uint8 public constant VERSION = 3;
+
+    // State Variables
+    uint32 public immutable localDomain;
+    uint32 public nonce;
+    bytes32 public latestDispatchedId;
+    uint256 public fee;
+    IInterchainSecurityModule public defaultIsm;
+
+    mapping(bytes32 => bool) public delivered;
+
+    // Errors
+    error InsufficientFee(uint256 required, uint256 provided);
+    error RefundFailed();
+    error InvalidVersion();
+    error InvalidDestination();
+    error AlreadyDelivered();
+    error MissingIsm();
+    error IsmVerificationFailed();
+
+    constructor(uint32 _localDomain) {
+        localDomain = _localDomain;
+    }
+
+    // Dispatch
+
+    function dispatch(
+        uint32 destinationDomain,
+        bytes32 recipientAddress,
+        bytes calldata messageBody
+    ) public payable returns (bytes32 messageId) {
+        if (msg.value < fee) revert InsufficientFee(fee, msg.value);
+
+        bytes memory message = abi.encodePacked(
+            VERSION,
+            nonce,
+            localDomain,
+            bytes32(uint256(uint160(msg.sender))),
+            destinationDomain,
+            recipientAddress,
+            messageBody
+        );
+        messageId = keccak256(message);
+
+        nonce++;
+        latestDispatchedId = messageId;
+        emit Dispatch(msg.sender, destinationDomain, recipientAddress, message);
+        emit DispatchId(messageId);
+
+        // Mirror the IGP behaviour of refunding overpayment to the dispatcher
+        uint256 excess = msg.value - fee;
+        if (excess > 0) {
+            (bool success, ) = msg.sender.call{value: excess}("");
+            if (!success) revert RefundFailed();
+        }
+    }
+
+    function dispatch(
+        uint32 destinationDomain,
+        bytes32 recipientAddress,
+        bytes calldata body,
+        bytes calldata
+    ) external payable returns (bytes32 messageId) {
+        return dispatch(destinationDomain, recipientAddress, body);
+    }
+
+    function dispatch(
+        uint32 destinationDomain,
+        bytes32 recipientAddress,
+        bytes calldata body,
+        bytes calldata,
+        IPostDispatchHook
+    ) external payable returns (bytes32 messageId) {
+        return dispatch(destinationDomain, recipientAddress, body);
+    }
+
+    function quoteDispatch(uint32, bytes32, bytes calldata) public view returns (uint256) {
+        return fee;
+    }
+
+    function quoteDispatch(uint32, bytes32, bytes calldata, bytes calldata) external view returns (uint256) {
+        return fee;
+    }
+
+    function quoteDispatch(
+        uint32,
+        bytes32,
+        bytes calldata,
+        bytes calldata,
+        IPostDispatchHook
+    ) external view returns (uint256) {
+        return fee;
+    }
+
+    // Delivery
+
+    /**
+     * @notice Deliver a message dispatched by another MockMailbox
+     * @dev Resolves the recipient ISM the same way the real Mailbox does
+     */
+    function process(bytes calldata metadata, bytes calldata message) external payable {
+        if (uint8(message[0]) != VERSION) revert InvalidVersion();
+        if (uint32(bytes4(message[41:45])) != localDomain) revert InvalidDestination();
+
+        bytes32 messageId = keccak256(message);
+        if (delivered[messageId]) revert AlreadyDelivered();
+        delivered[messageId] = true;
+
+        uint32 origin = uint32(bytes4(message[5:9]));
+        bytes32 sender = bytes32(message[9:41]);
+        address recipient = address(uint160(uint256(bytes32(message[45:77]))));
+
+        IInterchainSecurityModule ism = recipientIsm(recipient);
+        if (address(ism) == address(0)) revert MissingIsm();
+        if (!ism.verify(metadata, message)) revert IsmVerificationFailed();
+
+        IMessageRecipient(recipient).handle{value: msg.value}(origin, sender, message[77:]);
+
+        emit Process(origin, sender, recipient);
+        emit ProcessId(messageId);
+    }
+
+    function recipientIsm(address recipient) public view returns (IInterchainSecurityModule) {
+        try ISpecifiesInterchainSecurityModule(recipient).interchainSecurityModule() returns (
+            IInterchainSecurityModule module
+        ) {
+            if (address(module) != address(0)) return module;
+        } catch {}
+        return defaultIsm;
+    }
+
+    function defaultHook() external pure returns (IPostDispatchHook) {
+        return IPostDispatchHook(address(0));
+    }
+
+    function requiredHook() external pure returns (IPostDispatchHook) {
+        return IPostDispatchHook(address(0));
+    }
+
+    // Test configuration
+
+    function setFee(uint256 _fee) external {
+        fee = _fee;
+    }
+
+    function setDefaultIsm(address _ism) external {
+        defaultIsm = IInterchainSecurityModule(_ism);
+    }
+}
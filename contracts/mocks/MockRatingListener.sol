@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../interfaces/IRatingListener.sol";
+
+/**
+ * @notice IRatingListener for local tests that records calls or misbehaves on demand
+ */
+contract MockRatingListener is IRatingListener {
+
+    enum Mode {
+        RECORD,
+        REVERT,
+        BURN_GAS,
+        REVERT_LARGE
+    }
+
+    Mode public mode;
+    uint256 public callCount;
+    address public lastBorrower;
+    uint8 public lastOldScore;
+    uint8 public lastNewScore;
+    uint256 public lastLtv;
+
+    error ListenerFailed();
+
+    function setMode(Mode _mode) external {
+        mode = _mode;
+    }
+
+    function onRatingUpdated(address borrower, uint8 oldScore, uint8 newScore, uint256 newLtv) external {
+        if (mode == Mode.REVERT) revert ListenerFailed();
+        if (mode == Mode.BURN_GAS) {
+            while (true) {}
+        }
+        if (mode == Mode.REVERT_LARGE) {
+            bytes memory reason = new bytes(10_000);
+            assembly {
+                revert(add(reason, 0x20), mload(reason))
+            }
+        }
+
+        callCount++;
+        lastBorrower = borrower;
+        lastOldScore = oldScore;
+        lastNewScore = newScore;
+        lastLtv = newLtv;
+    }
+}
@@ -0,0 +1,51 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+task("approveScoreJump", "Approve the next rating of a borrower to move past RatingSender's max score delta")
+  .addParam("sender", "RatingSender contract address")
+  .addParam("borrower", "Borrower address")
+  .addParam("score", "Exact score the next rating may jump to (0-100)")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nApproving score jump on ${networkName}\n`);
+
+    try {
+      const [approver] = await hre.ethers.getSigners();
+      console.log("Approving with account:", approver.address);
+      console.log();
+
+      // Get RatingSender contract
+      const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
+      const borrower = hre.ethers.getAddress(taskArgs.borrower);
+      const score = Number(taskArgs.score);
+
+      const last = await ratingSender.lastScores(borrower);
+      console.log("Borrower:", borrower);
+      console.log("Last score sent:", last.exists ? last.score.toString() : "(none)");
+      console.log("Approved score:", score);
+      console.log("Max score delta:", (await ratingSender.maxScoreDelta()).toString());
+      console.log();
+
+      console.log("Approving score jump...");
+      const tx = await ratingSender.approveScoreJump(borrower, score);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify approval
+      const approval = await ratingSender.scoreJumpApprovals(borrower);
+      console.log("Verification:");
+      console.log("   Score:", Number(approval.score) === score ? "✓" : "✗", approval.score.toString());
+      console.log("   Approver:", approval.approver === approver.address ? "✓" : "✗", approval.approver);
+      console.log("   Expires:", new Date(Number(approval.expiresAt) * 1000).toISOString());
+      console.log();
+
+      console.log("The rating must now be sent by a rater other than", approver.address);
+
+    } catch (error) {
+      console.error("\nApproval failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,70 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { executeIfNoDelay } from "./consumerChanges";
+
+// Order matches RatingConsumerStorage.AggregationMode
+const AGGREGATION_MODES = ["none", "median", "min"];
+
+task("configureAggregation", "Configure how RatingConsumer combines ratings from several raters")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("mode", `Aggregation mode (${AGGREGATION_MODES.join(", ")})`)
+  .addOptionalParam("raters", "Comma-separated rater addresses whose latest ratings are aggregated", "")
+  .addOptionalParam("quorum", "Fresh ratings required before the aggregate is used", "0")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring RatingConsumer rating aggregation on ${networkName}\n`);
+
+    try {
+      const mode = AGGREGATION_MODES.indexOf(taskArgs.mode.toLowerCase());
+      if (mode === -1) {
+        throw new Error(`Unknown aggregation mode ${taskArgs.mode}, expected one of ${AGGREGATION_MODES.join(", ")}`);
+      }
+      const raters = taskArgs.raters
+        .split(",")
+        .map((rater: string) => rater.trim())
+        .filter((rater: string) => rater.length > 0)
+        .map((rater: string) => hre.ethers.getAddress(rater));
+      const quorum = BigInt(taskArgs.quorum);
+
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      console.log("Mode:", AGGREGATION_MODES[mode]);
+      console.log("Raters:", raters.length > 0 ? raters.join(", ") : "(none)");
+      console.log("Quorum:", quorum.toString());
+      console.log();
+
+      console.log("Proposing rating aggregation...");
+      const tx = await ratingConsumer.proposeRatingAggregation(mode, raters, quorum);
+      console.log("Transaction hash:", tx.hash);
+
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Aggregation changes are timelocked; they can only be applied at once while no delay is configured
+      const executed = await executeIfNoDelay(ratingConsumer, receipt);
+      console.log();
+      if (!executed) return;
+
+      // Verify configuration
+      const configuredMode = Number(await ratingConsumer.aggregationMode());
+      const configuredRaters = await ratingConsumer.getAggregationRaters();
+      const configuredQuorum = await ratingConsumer.aggregationQuorum();
+      console.log("Verification:");
+      console.log("   Mode:", configuredMode === mode ? "✓" : "✗", AGGREGATION_MODES[configuredMode]);
+      console.log("   Raters:", configuredRaters.join(",") === raters.join(",") ? "✓" : "✗", configuredRaters.length);
+      console.log("   Quorum:", configuredQuorum === quorum ? "✓" : "✗", configuredQuorum.toString());
+      console.log();
+
+      console.log("Configuration completed successfully!");
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
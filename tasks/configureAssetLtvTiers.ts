@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { executeIfNoDelay } from "./consumerChanges";
+import { LtvTier, diffLtvTiers, parseLtvTiers, toLtvTiers } from "./ltvTiers";
+
+task("configureAssetLtvTiers", "Push per-asset LTV curves to RatingConsumer from a JSON config")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("file", "Path to a JSON object mapping asset address => array of tiers")
+  .addOptionalParam("prune", "Remove on-chain curves for assets missing from the file", "false")
+  .addOptionalParam("dryrun", "Only print the diff against the on-chain curves", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring RatingConsumer asset LTV curves on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+      const dryRun = taskArgs.dryrun === "true";
+
+      const config = JSON.parse(fs.readFileSync(taskArgs.file, "utf8"));
+      const proposed = new Map<string, LtvTier[]>();
+      for (const [asset, tiers] of Object.entries(config)) {
+        proposed.set(hre.ethers.getAddress(asset), parseLtvTiers(tiers, `${taskArgs.file} (${asset})`));
+      }
+
+      const configuredAssets: string[] = await ratingConsumer.getLtvAssets();
+      // Curve changes are timelocked; they only apply at once while no delay is configured
+      let pending = 0;
+
+      for (const [asset, tiers] of proposed) {
+        console.log(`Asset ${asset} (on-chain -> file):`);
+        const current = toLtvTiers(await ratingConsumer.getAssetLtvTiers(asset));
+        const changed = diffLtvTiers(current, tiers);
+
+        if (!changed) {
+          console.log("   Already up to date");
+        } else if (!dryRun) {
+          const tx = await ratingConsumer.proposeAssetLtvTiers(asset, tiers);
+          console.log("   Transaction hash:", tx.hash);
+          const receipt = await tx.wait();
+          console.log("   Transaction confirmed");
+          pending += (await executeIfNoDelay(ratingConsumer, receipt)) ? 0 : 1;
+        }
+        console.log();
+      }
+
+      const stale = configuredAssets.filter((asset) => !proposed.has(asset));
+      for (const asset of stale) {
+        if (taskArgs.prune !== "true") {
+          console.log(`Asset ${asset} has an on-chain curve but is not in the file (use --prune true to remove)`);
+          continue;
+        }
+
+        console.log(`Removing curve for ${asset}...`);
+        if (!dryRun) {
+          const tx = await ratingConsumer.proposeRemoveAssetLtvTiers(asset);
+          console.log("   Transaction hash:", tx.hash);
+          const receipt = await tx.wait();
+          console.log("   Transaction confirmed");
+          pending += (await executeIfNoDelay(ratingConsumer, receipt)) ? 0 : 1;
+        }
+      }
+      console.log();
+
+      if (dryRun) {
+        console.log("Dry run, no transaction sent");
+        return;
+      }
+
+      if (pending > 0) {
+        console.log("Changes waiting for the change delay:", pending);
+      }
+      console.log("Configured assets:", (await ratingConsumer.getLtvAssets()).join(", ") || "(none)");
+      console.log();
+
+      console.log("Configuration completed successfully!");
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
@@ -1,47 +1,107 @@
 import { task } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { getDomainId } from "./constants";
+import { formatEta, getProposedChangeId } from "./consumerChanges";
 
-task("configureConsumer", "Configure RatingConsumer with authorized sender")
+const printAuthorizedSenders = async (ratingConsumer: any, sourceDomain: number): Promise<string[]> => {
+  const [senders, expiries] = await ratingConsumer.getAuthorizedSenders(sourceDomain);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  console.log(`Authorized senders for domain ${sourceDomain}:`);
+  if (senders.length === 0) {
+    console.log("   (none)");
+  }
+  senders.forEach((sender: string, i: number) => {
+    const expiry = expiries[i] === 0n ? "never expires" : `expires ${formatEta(expiries[i])}`;
+    const status = expiries[i] !== 0n && expiries[i] <= now ? " [expired]" : "";
+    console.log(`   ${sender} (${expiry})${status}`);
+  });
+  console.log();
+
+  return senders;
+};
+
+task("configureConsumer", "Add, remove or list the authorized senders of RatingConsumer for a source domain")
   .addParam("consumer", "RatingConsumer contract address")
-  .addParam("sender", "RatingSender contract address on source chain")
   .addParam("source", "Source network name (e.g., sepolia, ethereum)")
+  .addOptionalParam("add", "RatingSender address on the source chain to authorize")
+  .addOptionalParam("expiry", "Unix timestamp after which the added sender is rejected (0 = never)", "0")
+  .addOptionalParam("remove", "RatingSender address on the source chain to deauthorize")
+  .addOptionalParam("list", "Only list the authorized senders", "false")
   .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
     const networkName = hre.network.name;
     console.log(`\nConfiguring RatingConsumer on ${networkName}\n`);
 
     try {
-      const [deployer] = await hre.ethers.getSigners();
-      console.log("Configuring with account:", deployer.address);
-      console.log();
+      const modes = [taskArgs.add !== undefined, taskArgs.remove !== undefined, taskArgs.list === "true"];
+      if (modes.filter(Boolean).length !== 1) {
+        throw new Error("Pass exactly one of --add, --remove or --list true");
+      }
 
       // Get source domain ID
       const sourceDomain = getDomainId(taskArgs.source);
       console.log("Source network:", taskArgs.source);
       console.log("Source domain:", sourceDomain);
-      console.log("Sender address:", taskArgs.sender);
       console.log();
 
       // Get RatingConsumer contract
       const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
 
+      if (taskArgs.list === "true") {
+        await printAuthorizedSenders(ratingConsumer, sourceDomain);
+        return;
+      }
+
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
       // Convert sender address to bytes32
-      const senderBytes32 = hre.ethers.zeroPadValue(taskArgs.sender, 32);
+      const adding = taskArgs.add !== undefined;
+      const senderBytes32 = hre.ethers.zeroPadValue(adding ? taskArgs.add : taskArgs.remove, 32);
 
-      console.log("Setting authorized sender...");
-      const tx = await ratingConsumer.setAuthorizedSender(sourceDomain, senderBytes32);
+      let tx;
+      if (adding) {
+        console.log(`Proposing to add sender ${senderBytes32}...`);
+        tx = await ratingConsumer.proposeAddAuthorizedSender(sourceDomain, senderBytes32, BigInt(taskArgs.expiry));
+      } else {
+        console.log(`Proposing to remove sender ${senderBytes32}...`);
+        tx = await ratingConsumer.proposeRemoveAuthorizedSender(sourceDomain, senderBytes32);
+      }
       console.log("Transaction hash:", tx.hash);
 
-      await tx.wait();
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Sender changes are timelocked; they can only be applied at once while no delay is configured
+      const id = getProposedChangeId(ratingConsumer, receipt);
+      const delay = await ratingConsumer.changeDelay();
+      if (delay > 0n) {
+        const change = await ratingConsumer.getPendingChange(id);
+        console.log(`Change ${id} is executable after ${formatEta(change.eta)}`);
+        console.log(`Run executeConsumerChange --consumer ${taskArgs.consumer} --id ${id} then`);
+        return;
+      }
+
+      console.log("Executing change...");
+      const executeTx = await ratingConsumer.executeChange(id);
+      console.log("Transaction hash:", executeTx.hash);
+
+      await executeTx.wait();
       console.log("Transaction confirmed");
       console.log();
 
       // Verify configuration
-      const configuredSender = await ratingConsumer.getAuthorizedSender(sourceDomain);
+      const senders = await printAuthorizedSenders(ratingConsumer, sourceDomain);
+      const authorized = await ratingConsumer.isAuthorizedSender(sourceDomain, senderBytes32);
       console.log("Verification:");
-      console.log("   Configured sender:", configuredSender);
-      console.log("   Expected sender:", senderBytes32);
-      console.log("   Match:", configuredSender === senderBytes32 ? "✓" : "✗");
+      if (adding) {
+        console.log("   Registered:", senders.includes(senderBytes32) ? "✓" : "✗");
+        console.log("   Accepted now:", authorized ? "✓" : "✗");
+      } else {
+        console.log("   Removed:", !senders.includes(senderBytes32) ? "✓" : "✗");
+      }
       console.log();
 
       console.log("Configuration completed successfully!");
@@ -0,0 +1,77 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const SOURCES = ["rating", "fallback", "override"];
+
+task("configureGovernanceAdapter", "Set AaveGovernanceAdapter LTV bounds or per-borrower overrides")
+  .addParam("adapter", "AaveGovernanceAdapter contract address")
+  .addOptionalParam("minltv", "New lowest LTV in basis points (with --maxltv)")
+  .addOptionalParam("maxltv", "New highest LTV in basis points (with --minltv)")
+  .addOptionalParam("borrower", "Borrower to override, or to inspect when no other option is given")
+  .addOptionalParam("ltv", "Override LTV for --borrower in basis points")
+  .addOptionalParam("expiry", "Unix timestamp the override stops applying at (0 = never)", "0")
+  .addOptionalParam("remove", "Remove the override of --borrower", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring AaveGovernanceAdapter on ${networkName}\n`);
+
+    try {
+      const settingBounds = taskArgs.minltv !== undefined || taskArgs.maxltv !== undefined;
+      const overriding = taskArgs.ltv !== undefined || taskArgs.remove === "true";
+      if (settingBounds && (taskArgs.minltv === undefined || taskArgs.maxltv === undefined)) {
+        throw new Error("Pass both --minltv and --maxltv");
+      }
+      if (overriding && taskArgs.borrower === undefined) {
+        throw new Error("Pass --borrower with --ltv or --remove true");
+      }
+
+      // Get AaveGovernanceAdapter contract
+      const adapter = await hre.ethers.getContractAt("AaveGovernanceAdapter", taskArgs.adapter);
+
+      if (settingBounds || overriding) {
+        const [deployer] = await hre.ethers.getSigners();
+        console.log("Configuring with account:", deployer.address);
+        console.log();
+      }
+
+      if (settingBounds) {
+        console.log(`Setting LTV bounds to ${taskArgs.minltv} - ${taskArgs.maxltv} bps...`);
+        const tx = await adapter.setLtvBounds(Number(taskArgs.minltv), Number(taskArgs.maxltv));
+        console.log("Transaction hash:", tx.hash);
+        await tx.wait();
+        console.log("Transaction confirmed");
+        console.log();
+      }
+
+      if (overriding) {
+        const removing = taskArgs.remove === "true";
+        console.log(`${removing ? "Removing" : "Setting"} override for ${taskArgs.borrower}...`);
+        const tx = removing
+          ? await adapter.removeBorrowerOverride(taskArgs.borrower)
+          : await adapter.setBorrowerOverride(taskArgs.borrower, Number(taskArgs.ltv), BigInt(taskArgs.expiry));
+        console.log("Transaction hash:", tx.hash);
+        await tx.wait();
+        console.log("Transaction confirmed");
+        console.log();
+      }
+
+      // Verify configuration
+      console.log("Current configuration:");
+      console.log("   LTV bounds:", (await adapter.minLtvBps()).toString(), "-", (await adapter.maxLtvBps()).toString(), "bps");
+      console.log("   Fallback LTV:", (await adapter.lowestTierLtvBps()).toString(), "bps");
+      if (taskArgs.borrower !== undefined) {
+        const [ltvBps, source] = await adapter.getBorrowerLtv(taskArgs.borrower);
+        const borrowerOverride = await adapter.borrowerOverrides(taskArgs.borrower);
+        console.log(`   Borrower LTV: ${ltvBps} bps (${SOURCES[Number(source)]})`);
+        if (borrowerOverride.ltvBps !== 0n) {
+          const expiry = borrowerOverride.expiresAt === 0n ? "never expires" : `expires at ${borrowerOverride.expiresAt}`;
+          console.log(`   Override: ${borrowerOverride.ltvBps} bps (${expiry})`);
+        }
+      }
+      console.log();
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
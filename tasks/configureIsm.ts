@@ -0,0 +1,72 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEta, getProposedChangeId } from "./consumerChanges";
+
+task("configureIsm", "Configure the Interchain Security Module used by RatingConsumer")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("ism", "ISM contract address (use 0x0000000000000000000000000000000000000000 for the mailbox default)")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring RatingConsumer ISM on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+      const ismAddress = hre.ethers.getAddress(taskArgs.ism);
+
+      console.log("Current ISM:", await ratingConsumer.interchainSecurityModule());
+      console.log("New ISM:", ismAddress);
+      console.log();
+
+      console.log("Proposing interchain security module...");
+      const tx = await ratingConsumer.proposeInterchainSecurityModule(ismAddress);
+      console.log("Transaction hash:", tx.hash);
+
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // ISM changes are timelocked; they can only be applied at once while no delay is configured
+      const id = getProposedChangeId(ratingConsumer, receipt);
+      const delay = await ratingConsumer.changeDelay();
+      if (delay > 0n) {
+        const change = await ratingConsumer.getPendingChange(id);
+        console.log(`Change ${id} is executable after ${formatEta(change.eta)}`);
+        console.log(`Run executeConsumerChange --consumer ${taskArgs.consumer} --id ${id} then`);
+        return;
+      }
+
+      console.log("Executing change...");
+      const executeTx = await ratingConsumer.executeChange(id);
+      console.log("Transaction hash:", executeTx.hash);
+
+      await executeTx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify the mailbox resolves the expected module for the consumer
+      const mailbox = await hre.ethers.getContractAt("IMailbox", await ratingConsumer.mailbox());
+      const expectedIsm = ismAddress === hre.ethers.ZeroAddress ? await mailbox.defaultIsm() : ismAddress;
+      const recipientIsm = await mailbox.recipientIsm(taskArgs.consumer);
+
+      console.log("Verification:");
+      console.log("   Mailbox recipientIsm:", recipientIsm);
+      console.log("   Expected ISM:", expectedIsm);
+      console.log("   Match:", recipientIsm === expectedIsm ? "✓" : "✗");
+      console.log();
+
+      if (recipientIsm !== expectedIsm) {
+        throw new Error(`Mailbox resolves ISM ${recipientIsm}, expected ${expectedIsm}`);
+      }
+
+      console.log("Configuration completed successfully!");
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,61 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+task("configureListeners", "Add, remove or list the IRatingListener contracts RatingConsumer notifies")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addOptionalParam("add", "Listener contract to register")
+  .addOptionalParam("remove", "Listener contract to unregister")
+  .addOptionalParam("list", "Only list the registered listeners", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring rating listeners on ${networkName}\n`);
+
+    try {
+      const modes = [taskArgs.add !== undefined, taskArgs.remove !== undefined, taskArgs.list === "true"];
+      if (modes.filter(Boolean).length !== 1) {
+        throw new Error("Pass exactly one of --add, --remove or --list true");
+      }
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      if (taskArgs.list !== "true") {
+        const [deployer] = await hre.ethers.getSigners();
+        console.log("Configuring with account:", deployer.address);
+        console.log();
+
+        const adding = taskArgs.add !== undefined;
+        const listener = hre.ethers.getAddress(adding ? taskArgs.add : taskArgs.remove);
+        console.log(`${adding ? "Adding" : "Removing"} listener ${listener}...`);
+        const tx = adding
+          ? await ratingConsumer.addRatingListener(listener)
+          : await ratingConsumer.removeRatingListener(listener);
+        console.log("Transaction hash:", tx.hash);
+
+        await tx.wait();
+        console.log("Transaction confirmed");
+        console.log();
+
+        // Verify configuration
+        const registered = (await ratingConsumer.getRatingListeners()).includes(listener);
+        console.log("Verification:");
+        console.log(`   ${adding ? "Registered" : "Removed"}:`, registered === adding ? "✓" : "✗");
+        console.log();
+      }
+
+      const listeners = await ratingConsumer.getRatingListeners();
+      const max = await ratingConsumer.MAX_RATING_LISTENERS();
+      console.log(`Rating listeners (${listeners.length}/${max}):`);
+      if (listeners.length === 0) {
+        console.log("   (none)");
+      }
+      for (const listener of listeners) {
+        console.log(`   ${listener}`);
+      }
+      console.log();
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,65 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { executeIfNoDelay } from "./consumerChanges";
+import { LtvTier, diffLtvTiers, ltvTiersEqual, readLtvTiersFile, toLtvTiers } from "./ltvTiers";
+
+task("configureLtvTiers", "Configure RatingConsumer score -> LTV tiers from a JSON file")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("file", "Path to a JSON array of { minScore, ltvBps, liquidationThresholdBps, liquidationBonusBps }, highest minScore first")
+  .addOptionalParam("dryrun", "Only print the diff against the on-chain table", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring RatingConsumer LTV tiers on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      const proposed = readLtvTiersFile(taskArgs.file);
+      const current: LtvTier[] = toLtvTiers(await ratingConsumer.getLtvTiers());
+
+      console.log("Diff (on-chain -> file):");
+      const changed = diffLtvTiers(current, proposed);
+      console.log();
+
+      if (!changed) {
+        console.log("On-chain tiers already match, nothing to do");
+        return;
+      }
+
+      if (taskArgs.dryrun === "true") {
+        console.log("Dry run, no transaction sent");
+        return;
+      }
+
+      console.log("Proposing LTV tiers...");
+      const tx = await ratingConsumer.proposeLtvTiers(proposed);
+      console.log("Transaction hash:", tx.hash);
+
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Tier changes are timelocked; they can only be applied at once while no delay is configured
+      const executed = await executeIfNoDelay(ratingConsumer, receipt);
+      console.log();
+      if (!executed) return;
+
+      // Verify configuration
+      const configured = toLtvTiers(await ratingConsumer.getLtvTiers());
+      const match = ltvTiersEqual(configured, proposed);
+      console.log("Verification:");
+      console.log("   Match:", match ? "✓" : "✗");
+      console.log();
+
+      console.log("Configuration completed successfully!");
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,51 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+task("configureRatingLimits", "Configure the per-rater rate limit and max score change of RatingSender")
+  .addParam("sender", "RatingSender contract address")
+  .addOptionalParam("window", "Rate limit window in seconds (0 disables the rate limit)", "0")
+  .addOptionalParam("maxratings", "Ratings each rater may send per window (0 disables the rate limit)", "0")
+  .addOptionalParam("maxdelta", "Largest score change per update without a second approval (0 disables)", "0")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring RatingSender limits on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
+      // Get RatingSender contract
+      const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
+      const window = BigInt(taskArgs.window);
+      const maxRatings = BigInt(taskArgs.maxratings);
+      const maxDelta = Number(taskArgs.maxdelta);
+
+      console.log("Current limits:");
+      console.log("   Window:", (await ratingSender.rateLimitWindow()).toString(), "seconds");
+      console.log("   Max ratings per window:", (await ratingSender.maxRatingsPerWindow()).toString());
+      console.log("   Max score delta:", (await ratingSender.maxScoreDelta()).toString());
+      console.log();
+
+      console.log("Setting rating limits...");
+      const tx = await ratingSender.setRatingLimits(window, maxRatings, maxDelta);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify configuration
+      console.log("Verification:");
+      console.log("   Window:", (await ratingSender.rateLimitWindow()) === window ? "✓" : "✗", window.toString());
+      console.log("   Max ratings per window:", (await ratingSender.maxRatingsPerWindow()) === maxRatings ? "✓" : "✗", maxRatings.toString());
+      console.log("   Max score delta:", Number(await ratingSender.maxScoreDelta()) === maxDelta ? "✓" : "✗", maxDelta);
+      console.log();
+
+      console.log("Configuration completed successfully!");
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
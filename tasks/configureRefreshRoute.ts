@@ -0,0 +1,59 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDomainId } from "./constants";
+
+task("configureRefreshRoute", "Set the RatingSender that RatingConsumer sends rating refresh requests to")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("source", "Source network name (e.g., sepolia, ethereum)")
+  .addOptionalParam("sender", "RatingSender address on the source chain; omit to disable refresh requests")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nConfiguring refresh route on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Configuring with account:", deployer.address);
+      console.log();
+
+      // Get source domain ID
+      const sourceDomain = getDomainId(taskArgs.source);
+      const recipient = taskArgs.sender ? hre.ethers.zeroPadValue(taskArgs.sender, 32) : hre.ethers.ZeroHash;
+      console.log("Source network:", taskArgs.source);
+      console.log("Source domain:", sourceDomain);
+      console.log("RatingSender:", taskArgs.sender ?? "(disabled)");
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      // The route must point at a sender the consumer already accepts ratings from
+      if (recipient !== hre.ethers.ZeroHash) {
+        const [senders] = await ratingConsumer.getAuthorizedSenders(sourceDomain);
+        if (!senders.includes(recipient)) {
+          throw new Error(`${taskArgs.sender} is not a registered sender for domain ${sourceDomain}; add it with configureConsumer first`);
+        }
+      }
+
+      console.log("Setting refresh route...");
+      const tx = await ratingConsumer.setRefreshRoute(sourceDomain, recipient);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify configuration
+      const configuredDomain = await ratingConsumer.refreshDomain();
+      const configuredRecipient = await ratingConsumer.refreshRecipient();
+      console.log("Verification:");
+      console.log("   Domain:", configuredDomain === BigInt(sourceDomain) ? "✓" : "✗", configuredDomain.toString());
+      console.log("   Recipient:", configuredRecipient === recipient ? "✓" : "✗", configuredRecipient);
+      console.log();
+
+      console.log("Configuration completed successfully!");
+
+    } catch (error) {
+      console.error("\nConfiguration failed:", error);
+      throw error;
+    }
+  });
@@ -2,10 +2,14 @@ import { task } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { getDomainId } from "./constants";
 
-task("configureSender", "Configure RatingSender with destination recipient")
+const splitList = (value: string): string[] => {
+  return value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+};
+
+task("configureSender", "Configure RatingSender with one or more destination recipients")
   .addParam("sender", "RatingSender contract address")
-  .addParam("consumer", "RatingConsumer contract address on destination chain")
-  .addParam("destination", "Destination network name (e.g., arbitrumSepolia, arbitrum)")
+  .addParam("consumer", "RatingConsumer address on the destination chains, or a comma-separated list matching --destination")
+  .addParam("destination", "Destination network name, or a comma-separated list (e.g., arbitrum,base)")
   .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
     const networkName = hre.network.name;
     console.log(`\nConfiguring RatingSender on ${networkName}\n`);
@@ -15,33 +19,46 @@ task("configureSender", "Configure RatingSender with destination recipient")
       console.log("Configuring with account:", deployer.address);
       console.log();
 
-      // Get destination domain ID
-      const destinationDomain = getDomainId(taskArgs.destination);
-      console.log("Destination network:", taskArgs.destination);
-      console.log("Destination domain:", destinationDomain);
-      console.log("Consumer address:", taskArgs.consumer);
-      console.log();
+      const destinations = splitList(taskArgs.destination);
+      const consumers = splitList(taskArgs.consumer);
+      if (consumers.length !== 1 && consumers.length !== destinations.length) {
+        throw new Error(`Got ${consumers.length} consumers for ${destinations.length} destinations`);
+      }
 
       // Get RatingSender contract
       const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
 
-      // Convert consumer address to bytes32
-      const consumerBytes32 = hre.ethers.zeroPadValue(taskArgs.consumer, 32);
+      const expected: { destinationDomain: number; consumerBytes32: string }[] = [];
+      for (const [i, destination] of destinations.entries()) {
+        // Get destination domain ID
+        const destinationDomain = getDomainId(destination);
+        const consumer = consumers.length === 1 ? consumers[0] : consumers[i];
+        console.log("Destination network:", destination);
+        console.log("Destination domain:", destinationDomain);
+        console.log("Consumer address:", consumer);
 
-      console.log("Setting destination recipient...");
-      const tx = await ratingSender.setDestinationRecipient(destinationDomain, consumerBytes32);
-      console.log("Transaction hash:", tx.hash);
+        // Convert consumer address to bytes32
+        const consumerBytes32 = hre.ethers.zeroPadValue(consumer, 32);
 
-      await tx.wait();
-      console.log("Transaction confirmed");
-      console.log();
+        console.log("Setting destination recipient...");
+        const tx = await ratingSender.setDestinationRecipient(destinationDomain, consumerBytes32);
+        console.log("Transaction hash:", tx.hash);
+
+        await tx.wait();
+        console.log("Transaction confirmed");
+        console.log();
+
+        expected.push({ destinationDomain, consumerBytes32 });
+      }
 
       // Verify configuration
-      const configuredRecipient = await ratingSender.getDestinationRecipient(destinationDomain);
       console.log("Verification:");
-      console.log("   Configured recipient:", configuredRecipient);
-      console.log("   Expected recipient:", consumerBytes32);
-      console.log("   Match:", configuredRecipient === consumerBytes32 ? "✓" : "✗");
+      for (const { destinationDomain, consumerBytes32 } of expected) {
+        const configuredRecipient = await ratingSender.getDestinationRecipient(destinationDomain);
+        console.log(`   Domain ${destinationDomain}:`, configuredRecipient === consumerBytes32 ? "✓" : "✗", configuredRecipient);
+      }
+      const domains = await ratingSender.getDestinationDomains();
+      console.log("   Fan-out destinations:", domains.join(", "));
       console.log();
 
       console.log("Configuration completed successfully!");
@@ -0,0 +1,113 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Helpers shared by the RatingConsumer timelock tasks
+ */
+
+// Task-facing names, indexed by RatingConsumer.ChangeType
+export const CHANGE_TYPES = [
+  "maxRatingAge",
+  "defaultLTV",
+  "addSender",
+  "mailbox",
+  "changeDelay",
+  "removeSender",
+  "ism",
+  "liquidationParams",
+  "ltvTiers",
+  "assetLtvTiers",
+  "removeAssetLtvTiers",
+  "aggregation",
+  "circuitBreaker",
+];
+
+const LTV_TIER_TUPLE = "tuple(uint8 minScore, uint16 ltvBps, uint16 liquidationThresholdBps, uint16 liquidationBonusBps)[]";
+
+/**
+ * Render the ABI-encoded payload of a pending change
+ */
+export const describeChange = (hre: HardhatRuntimeEnvironment, changeType: number, data: string): string => {
+  const coder = hre.ethers.AbiCoder.defaultAbiCoder();
+  const name = CHANGE_TYPES[changeType] ?? `type ${changeType}`;
+
+  switch (name) {
+    case "addSender": {
+      const [domain, sender, expiresAt] = coder.decode(["uint32", "bytes32", "uint256"], data);
+      const expiry = expiresAt === 0n ? "never expires" : `expires ${formatEta(expiresAt)}`;
+      return `${name}: domain ${domain} -> ${sender} (${expiry})`;
+    }
+    case "removeSender": {
+      const [domain, sender] = coder.decode(["uint32", "bytes32"], data);
+      return `${name}: domain ${domain} -> ${sender}`;
+    }
+    case "mailbox":
+    case "ism":
+    case "removeAssetLtvTiers":
+      return `${name}: ${coder.decode(["address"], data)[0]}`;
+    case "liquidationParams": {
+      const [thresholdBps, bonusBps] = coder.decode(["uint16", "uint16"], data);
+      return `${name}: threshold ${thresholdBps} bps, bonus ${bonusBps} bps`;
+    }
+    case "ltvTiers": {
+      const [tiers] = coder.decode([LTV_TIER_TUPLE], data);
+      return `${name}: ${tiers.length} tiers`;
+    }
+    case "assetLtvTiers": {
+      const [asset, tiers] = coder.decode(["address", LTV_TIER_TUPLE], data);
+      return `${name}: ${asset} -> ${tiers.length} tiers`;
+    }
+    case "aggregation": {
+      const [mode, raters, quorum] = coder.decode(["uint8", "address[]", "uint256"], data);
+      return `${name}: mode ${mode}, quorum ${quorum} of ${raters.join(", ") || "(no raters)"}`;
+    }
+    case "circuitBreaker": {
+      const [maxLargeChanges, scoreDelta, window] = coder.decode(["uint256", "uint256", "uint256"], data);
+      return `${name}: ${maxLargeChanges} changes above ${scoreDelta} points per ${window}s`;
+    }
+    case "maxRatingAge":
+    case "changeDelay":
+      return `${name}: ${coder.decode(["uint256"], data)[0]}s`;
+    default:
+      return `${name}: ${coder.decode(["uint256"], data)[0]}`;
+  }
+};
+
+/**
+ * Find the id of the change proposed in a transaction receipt
+ */
+export const getProposedChangeId = (ratingConsumer: any, receipt: any): string => {
+  for (const log of receipt.logs) {
+    const parsed = ratingConsumer.interface.parseLog(log);
+    if (parsed?.name === "ChangeProposed") {
+      return parsed.args.id;
+    }
+  }
+  throw new Error("ChangeProposed event not found in receipt");
+};
+
+/**
+ * Execute the change proposed in `receipt` right away while no change delay is
+ * configured; otherwise print when it becomes executable
+ * @returns Whether the change was executed
+ */
+export const executeIfNoDelay = async (ratingConsumer: any, receipt: any): Promise<boolean> => {
+  const id = getProposedChangeId(ratingConsumer, receipt);
+  if ((await ratingConsumer.changeDelay()) > 0n) {
+    const change = await ratingConsumer.getPendingChange(id);
+    console.log(`Change ${id} is executable after ${formatEta(change.eta)}`);
+    console.log(`Run executeConsumerChange --consumer ${await ratingConsumer.getAddress()} --id ${id} then`);
+    return false;
+  }
+
+  console.log("Executing change...");
+  const tx = await ratingConsumer.executeChange(id);
+  console.log("Transaction hash:", tx.hash);
+
+  await tx.wait();
+  console.log("Transaction confirmed");
+  return true;
+};
+
+export const formatEta = (eta: bigint): string => {
+  return `${new Date(Number(eta) * 1000).toISOString()} (${eta})`;
+};
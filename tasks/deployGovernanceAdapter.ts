@@ -0,0 +1,56 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { deployContract, logDeploymentSummary, readDeployedAddressesWithNetwork } from "./utils";
+
+task("deployGovernanceAdapter", "Deploy AaveGovernanceAdapter in front of RatingConsumer")
+  .addOptionalParam("consumer", "RatingConsumer address (if not provided, uses the one in deployments)")
+  .addOptionalParam("governance", "Account granted the adapter roles (defaults to the deployer)")
+  .addOptionalParam("minltv", "Lowest LTV the adapter reports, in basis points", "0")
+  .addOptionalParam("maxltv", "Highest LTV the adapter reports, in basis points", "10000")
+  .addOptionalParam("verify", "Verify contract on block explorer", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nDeploying AaveGovernanceAdapter on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Deploying with account:", deployer.address);
+      console.log();
+
+      const consumerAddress = taskArgs.consumer ?? readDeployedAddressesWithNetwork(networkName).RatingConsumer;
+      if (!consumerAddress) {
+        throw new Error(`RatingConsumer not found in deployments for ${networkName}. Please provide --consumer parameter.`);
+      }
+      const governance = taskArgs.governance ?? deployer.address;
+      console.log("RatingConsumer:", consumerAddress);
+      console.log("Governance:", governance);
+      console.log("LTV bounds:", `${taskArgs.minltv} - ${taskArgs.maxltv} bps`);
+
+      const adapter = await deployContract(
+        hre,
+        "AaveGovernanceAdapter",
+        [consumerAddress, governance, Number(taskArgs.minltv), Number(taskArgs.maxltv)],
+        taskArgs.verify === "true"
+      );
+      console.log();
+
+      // Verify deployment
+      const consumer = await adapter.consumer();
+      const isAdmin = await adapter.hasRole(await adapter.DEFAULT_ADMIN_ROLE(), governance);
+      console.log("Deployment Verification:");
+      console.log("   Consumer:", consumer === hre.ethers.getAddress(consumerAddress) ? "✓" : "✗", consumer);
+      console.log("   Governance admin:", isAdmin ? "✓" : "✗");
+      console.log("   LTV bounds:", (await adapter.minLtvBps()).toString(), "-", (await adapter.maxLtvBps()).toString(), "bps");
+      console.log("   Fallback LTV:", (await adapter.lowestTierLtvBps()).toString(), "bps");
+      console.log();
+
+      console.log("Deployment completed successfully!");
+      console.log();
+
+      logDeploymentSummary(networkName);
+
+    } catch (error) {
+      console.error("\nDeployment failed:", error);
+      throw error;
+    }
+  });
@@ -1,11 +1,17 @@
 import { task } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { deployContractWithProxy, logDeploymentSummary } from "./utils";
+import { deployContractWithProxy, getOwnableMigrationCall, logDeploymentSummary } from "./utils";
+import { getProxyAdmin, transferUpgrader } from "./roles";
 import { getChainConfig, getMailboxAddress } from "./constants";
 
 task("deployRatingConsumer", "Deploy or upgrade RatingConsumer contract")
   .addOptionalParam("mailbox", "Hyperlane Mailbox address (if not provided, uses default for network)")
   .addOptionalParam("verify", "Verify contract on block explorer", "false")
+  .addOptionalParam(
+    "legacydomains",
+    "Comma separated domains with an authorized sender configured, required to upgrade a 1.0.0 (Ownable) proxy"
+  )
+  .addOptionalParam("upgrader", "Account to hand the proxy's upgrade rights (ProxyAdmin ownership) to")
   .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
     const networkName = hre.network.name;
     console.log(`\nDeploying/Upgrading RatingConsumer on ${networkName}\n`);
@@ -37,28 +43,39 @@ task("deployRatingConsumer", "Deploy or upgrade RatingConsumer contract")
 
       console.log();
 
-      // Deploy or upgrade
+      // Deploy or upgrade; a 1.0.0 proxy is migrated in the upgrade transaction
       const verifyContracts = taskArgs.verify === "true";
+      const migration = await getOwnableMigrationCall(hre, "RatingConsumer", taskArgs.legacydomains);
       const ratingConsumer = await deployContractWithProxy(
         hre,
         "RatingConsumer",
         [mailboxAddress],
         [],
-        verifyContracts
+        verifyContracts,
+        migration
       );
 
       const consumerAddress = await ratingConsumer.getAddress();
       console.log();
 
+      // Keep upgrade rights off the deployer, which holds every role
+      if (taskArgs.upgrader) {
+        console.log(`Transferring upgrade rights to ${taskArgs.upgrader}...`);
+        await transferUpgrader(hre, consumerAddress, taskArgs.upgrader);
+        console.log();
+      }
+
       // Verify deployment
       const mailbox = await ratingConsumer.mailbox();
-      const owner = await ratingConsumer.owner();
+      const admins = await ratingConsumer.getRoleMembers(await ratingConsumer.DEFAULT_ADMIN_ROLE());
       const version = await ratingConsumer.version();
+      const upgrader = await (await getProxyAdmin(hre, consumerAddress)).owner();
 
       console.log("Deployment Verification:");
       console.log("   Mailbox:", mailbox);
-      console.log("   Owner:", owner);
+      console.log("   Admins:", admins.join(", ") || "(none)");
       console.log("   Version:", version);
+      console.log("   Upgrader:", upgrader);
       console.log();
 
       console.log("Deployment/Upgrade completed successfully!");
@@ -1,11 +1,17 @@
 import { task } from "hardhat/config";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { deployContractWithProxy, logDeploymentSummary } from "./utils";
+import { deployContractWithProxy, getOwnableMigrationCall, logDeploymentSummary } from "./utils";
+import { getProxyAdmin, transferUpgrader } from "./roles";
 import { getChainConfig, getMailboxAddress, getDomainId } from "./constants";
 
 task("deployRatingSender", "Deploy or upgrade RatingSender contract")
   .addOptionalParam("mailbox", "Hyperlane Mailbox address (if not provided, uses default for network)")
   .addOptionalParam("verify", "Verify contract on block explorer", "false")
+  .addOptionalParam(
+    "legacydomains",
+    "Comma separated domains with a destination recipient configured, required to upgrade a 1.0.0 (Ownable) proxy"
+  )
+  .addOptionalParam("upgrader", "Account to hand the proxy's upgrade rights (ProxyAdmin ownership) to")
   .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
     const networkName = hre.network.name;
     console.log(`\nDeploying/Upgrading RatingSender on ${networkName}\n`);
@@ -37,30 +43,41 @@ task("deployRatingSender", "Deploy or upgrade RatingSender contract")
 
       console.log();
 
-      // Deploy or upgrade
+      // Deploy or upgrade; a 1.0.0 proxy is migrated in the upgrade transaction
       const verifyContracts = taskArgs.verify === "true";
+      const migration = await getOwnableMigrationCall(hre, "RatingSender", taskArgs.legacydomains);
       const ratingSender = await deployContractWithProxy(
         hre,
         "RatingSender",
         [mailboxAddress],
         [],
-        verifyContracts
+        verifyContracts,
+        migration
       );
 
       const senderAddress = await ratingSender.getAddress();
       console.log();
 
+      // Keep upgrade rights off the deployer, which holds every role
+      if (taskArgs.upgrader) {
+        console.log(`Transferring upgrade rights to ${taskArgs.upgrader}...`);
+        await transferUpgrader(hre, senderAddress, taskArgs.upgrader);
+        console.log();
+      }
+
       // Verify deployment
       const mailbox = await ratingSender.mailbox();
-      const owner = await ratingSender.owner();
+      const admins = await ratingSender.getRoleMembers(await ratingSender.DEFAULT_ADMIN_ROLE());
       const version = await ratingSender.version();
-      const isOwnerRater = await ratingSender.authorizedRaters(owner);
+      const upgrader = await (await getProxyAdmin(hre, senderAddress)).owner();
+      const isDeployerRater = await ratingSender.authorizedRaters(deployer.address);
 
       console.log("Deployment Verification:");
       console.log("   Mailbox:", mailbox);
-      console.log("   Owner:", owner);
-      console.log("   Owner is authorized rater:", isOwnerRater);
+      console.log("   Admins:", admins.join(", ") || "(none)");
+      console.log("   Deployer is authorized rater:", isDeployerRater);
       console.log("   Version:", version);
+      console.log("   Upgrader:", upgrader);
       console.log();
 
       console.log("Deployment/Upgrade completed successfully!");
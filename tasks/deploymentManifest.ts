@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ZeroHash } from "ethers";
+
+/**
+ * deployments/<network>.json
+ *
+ * Version 2 keeps, per contract, the current address and one history entry per
+ * deploy and upgrade. Files written before it map contract names straight to
+ * addresses; they are read as contracts without history and rewritten in the new
+ * schema the next time a deployment is recorded.
+ */
+
+export const DEPLOYMENT_MANIFEST_VERSION = 2;
+export const deploymentsPath = path.join(__dirname, "..", "deployments");
+
+export type DeploymentAction = "deploy" | "upgrade";
+
+export interface DeploymentRecord {
+  action: DeploymentAction;
+  implementation: string | null;  // null for contracts deployed without a proxy
+  version: string | null;  // version() right after the deployment, null if the contract has none
+  gitCommit: string | null;  // suffixed with -dirty when the working tree had changes
+  blockNumber: number;
+  timestamp: number;
+  deployer: string;
+  txHash: string;
+}
+
+export interface ContractDeployment {
+  address: string;
+  proxyKind?: "uups" | "transparent";  // omitted for contracts deployed without a proxy
+  history: DeploymentRecord[];  // oldest first; empty for entries migrated from version 1
+}
+
+export interface DeploymentManifest {
+  manifestVersion: number;
+  network: string;
+  chainId?: number;
+  contracts: { [contractName: string]: ContractDeployment };
+}
+
+// ERC-1967 slots: keccak256("eip1967.proxy.implementation") - 1 and keccak256("eip1967.proxy.admin") - 1
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
+const manifestPath = (networkName: string): string => path.join(deploymentsPath, `${networkName}.json`);
+
+/**
+ * Read the manifest of a network, upgrading version 1 files in memory
+ */
+export const readDeploymentManifest = (networkName: string): DeploymentManifest => {
+  const manifest: DeploymentManifest = {
+    manifestVersion: DEPLOYMENT_MANIFEST_VERSION,
+    network: networkName,
+    contracts: {},
+  };
+
+  const filePath = manifestPath(networkName);
+  if (!fs.existsSync(filePath)) {
+    return manifest;
+  }
+
+  const content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (content.manifestVersion === undefined) {
+    for (const [contractName, address] of Object.entries(content)) {
+      manifest.contracts[contractName] = { address: address as string, history: [] };
+    }
+    return manifest;
+  }
+
+  if (content.manifestVersion > DEPLOYMENT_MANIFEST_VERSION) {
+    throw new Error(`Unsupported deployment manifest version ${content.manifestVersion} in ${filePath}`);
+  }
+  return content as DeploymentManifest;
+};
+
+export const writeDeploymentManifest = (manifest: DeploymentManifest): void => {
+  if (!fs.existsSync(deploymentsPath)) {
+    fs.mkdirSync(deploymentsPath, { recursive: true });
+  }
+  const { manifestVersion, network, chainId, contracts } = manifest;
+  fs.writeFileSync(
+    manifestPath(network),
+    JSON.stringify({ manifestVersion, network, chainId, contracts }, null, 2)
+  );
+};
+
+/**
+ * Contract name => current address, the shape version 1 files stored
+ */
+export const getDeployedAddresses = (manifest: DeploymentManifest): { [contractName: string]: string } => {
+  const addresses: { [contractName: string]: string } = {};
+  for (const [contractName, deployment] of Object.entries(manifest.contracts)) {
+    addresses[contractName] = deployment.address;
+  }
+  return addresses;
+};
+
+export const getGitCommit = (): string | null => {
+  try {
+    const commit = execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    const dirty = execSync("git status --porcelain", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    return dirty.length > 0 ? `${commit}-dirty` : commit;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * version() of a deployed contract, or null when it does not implement one
+ */
+export const readContractVersion = async (contract: Contract): Promise<string | null> => {
+  try {
+    return await contract.version();
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Kind of proxy at `address`, read from its ERC-1967 slots
+ * @dev Transparent proxies store their admin; UUPS proxies only their implementation
+ * @returns undefined when no implementation is stored, i.e. the address is not a proxy
+ */
+export const detectProxyKind = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string
+): Promise<ContractDeployment["proxyKind"]> => {
+  const { provider } = hre.ethers;
+  if ((await provider.getStorage(address, IMPLEMENTATION_SLOT)) === ZeroHash) {
+    return undefined;
+  }
+  return (await provider.getStorage(address, ADMIN_SLOT)) === ZeroHash ? "uups" : "transparent";
+};
+
+/**
+ * Append a history entry for `contract` and make it the current deployment of `contractName`
+ * @dev A different address under the same name starts a new history
+ * @param txHash Transaction that deployed the contract or proxy, or upgraded the proxy
+ * @param proxyKind Kind of proxy `contract` is attached to, omitted for plain contracts
+ */
+export const recordDeployment = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  contract: Contract,
+  action: DeploymentAction,
+  txHash: string,
+  proxyKind?: "uups" | "transparent"
+): Promise<DeploymentRecord> => {
+  const { ethers, upgrades } = hre;
+  const address = await contract.getAddress();
+
+  const receipt = await ethers.provider.getTransactionReceipt(txHash);
+  if (!receipt) {
+    throw new Error(`Transaction ${txHash} for ${contractName} not found`);
+  }
+  const block = await ethers.provider.getBlock(receipt.blockNumber);
+
+  const record: DeploymentRecord = {
+    action,
+    implementation: proxyKind ? await upgrades.erc1967.getImplementationAddress(address) : null,
+    version: await readContractVersion(contract),
+    gitCommit: getGitCommit(),
+    blockNumber: receipt.blockNumber,
+    timestamp: block!.timestamp,
+    deployer: receipt.from,
+    txHash,
+  };
+
+  const manifest = readDeploymentManifest(hre.network.name);
+  manifest.manifestVersion = DEPLOYMENT_MANIFEST_VERSION;
+  manifest.chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+  const previous = manifest.contracts[contractName];
+  manifest.contracts[contractName] = {
+    address,
+    ...(proxyKind ? { proxyKind } : {}),
+    history: [...(previous?.address === address ? previous.history : []), record],
+  };
+  writeDeploymentManifest(manifest);
+
+  return record;
+};
@@ -0,0 +1,111 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEta } from "./consumerChanges";
+import { detectProxyKind, readContractVersion, readDeploymentManifest } from "./deploymentManifest";
+
+const VERSION_ABI = ["function version() view returns (string)"];
+
+task("deployments", "Print the deployment manifest of a network and check it against the chain")
+  .addOptionalParam("validate", "Check addresses, implementations, versions and transactions on-chain", "true")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nDeployments on ${networkName}\n`);
+
+    try {
+      const { ethers, upgrades } = hre;
+      const manifest = readDeploymentManifest(networkName);
+      const validate = taskArgs.validate === "true";
+      const contractNames = Object.keys(manifest.contracts);
+      if (contractNames.length === 0) {
+        console.log("No deployments recorded");
+        return;
+      }
+
+      let failures = 0;
+      const check = (label: string, ok: boolean, detail: string = "") => {
+        if (!ok) failures++;
+        console.log(`      ${label}:`, ok ? "✓" : "✗", detail);
+      };
+
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+      console.log("Chain ID:", manifest.chainId ?? "(not recorded)");
+      if (validate && manifest.chainId !== undefined) {
+        check("Connected chain", manifest.chainId === chainId, chainId.toString());
+      }
+      console.log();
+
+      for (const contractName of contractNames) {
+        const deployment = manifest.contracts[contractName];
+        const latest = deployment.history[deployment.history.length - 1];
+        console.log(`${contractName}: ${deployment.address}${deployment.proxyKind ? ` (${deployment.proxyKind} proxy)` : ""}`);
+
+        if (deployment.history.length === 0) {
+          console.log("   (no history recorded; written before manifest version 2)");
+        }
+        deployment.history.forEach((record, i) => {
+          console.log(`   #${i + 1} ${record.action} at block ${record.blockNumber}, ${formatEta(BigInt(record.timestamp))}`);
+          if (record.implementation) console.log("      Implementation:", record.implementation);
+          console.log("      Version:", record.version ?? "(none)");
+          console.log("      Git commit:", record.gitCommit ?? "(unknown)");
+          console.log("      Deployer:", record.deployer);
+          console.log("      Transaction:", record.txHash);
+        });
+
+        if (!validate) {
+          console.log();
+          continue;
+        }
+
+        console.log("   Validation:");
+        const code = await ethers.provider.getCode(deployment.address);
+        check("Code at address", code !== "0x");
+        if (code === "0x") {
+          console.log();
+          continue;
+        }
+
+        // Entries migrated from version 1 have no proxy kind recorded
+        const proxyKind = deployment.proxyKind ?? await detectProxyKind(hre, deployment.address);
+        if (!deployment.proxyKind && proxyKind) {
+          console.log("      Proxy kind:", `${proxyKind} (detected from the ERC-1967 slots)`);
+        }
+        const onChainImplementation = proxyKind
+          ? await upgrades.erc1967.getImplementationAddress(deployment.address)
+          : null;
+        if (latest?.implementation) {
+          check("Implementation", onChainImplementation === latest.implementation, onChainImplementation ?? "");
+        } else if (onChainImplementation) {
+          console.log("      Implementation:", onChainImplementation);
+        }
+
+        const onChainVersion = await readContractVersion(
+          new ethers.Contract(deployment.address, VERSION_ABI, ethers.provider)
+        );
+        if (latest?.version) {
+          check("Version", onChainVersion === latest.version, onChainVersion ?? "(none)");
+        } else if (onChainVersion) {
+          console.log("      Version:", onChainVersion);
+        }
+
+        for (const record of deployment.history) {
+          const receipt = await ethers.provider.getTransactionReceipt(record.txHash);
+          const matches = receipt !== null
+            && receipt.blockNumber === record.blockNumber
+            && receipt.from.toLowerCase() === record.deployer.toLowerCase();
+          check(`Transaction ${record.txHash.slice(0, 10)}…`, matches, receipt ? "" : "not found");
+        }
+        console.log();
+      }
+
+      if (failures > 0) {
+        throw new Error(`${failures} check(s) failed against ${networkName}`);
+      }
+      if (validate) {
+        console.log("Manifest matches the chain");
+      }
+
+    } catch (error) {
+      console.error("\nQuery failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,56 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { describeChange, formatEta } from "./consumerChanges";
+
+task("executeConsumerChange", "Execute or cancel a pending RatingConsumer change")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("id", "Pending change id")
+  .addOptionalParam("cancel", "Cancel the change instead of executing it", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    const cancel = taskArgs.cancel === "true";
+    console.log(`\n${cancel ? "Cancelling" : "Executing"} RatingConsumer change on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Using account:", deployer.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      const change = await ratingConsumer.getPendingChange(taskArgs.id);
+      console.log("Pending change:");
+      console.log("  ", describeChange(hre, Number(change.changeType), change.data));
+      console.log("   Executable after:", formatEta(change.eta));
+      console.log();
+
+      if (!cancel) {
+        const block = await hre.ethers.provider.getBlock("latest");
+        if (BigInt(block!.timestamp) < change.eta) {
+          throw new Error(`Change is not executable until ${formatEta(change.eta)}`);
+        }
+      }
+
+      const tx = cancel
+        ? await ratingConsumer.cancelChange(taskArgs.id)
+        : await ratingConsumer.executeChange(taskArgs.id);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify the change left the pending set
+      const [ids] = await ratingConsumer.getPendingChanges();
+      console.log("Verification:");
+      console.log("   No longer pending:", ids.includes(taskArgs.id) ? "✗" : "✓");
+      console.log();
+
+      console.log(`Change ${cancel ? "cancelled" : "executed"} successfully!`);
+
+    } catch (error) {
+      console.error(`\n${cancel ? "Cancel" : "Execution"} failed:`, error);
+      throw error;
+    }
+  });
@@ -0,0 +1,46 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ROLE_NAMES, getAccessControl, resolveRole } from "./roles";
+
+task("grantRole", "Grant a role on RatingSender or RatingConsumer")
+  .addParam("contract", "RatingSender or RatingConsumer contract address")
+  .addParam("role", `Role name (${ROLE_NAMES.join(", ")})`)
+  .addParam("account", "Account receiving the role")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nGranting ${taskArgs.role} role on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Granting with account:", deployer.address);
+      console.log();
+
+      const contract = await getAccessControl(hre, taskArgs.contract);
+      const role = await resolveRole(contract, taskArgs.role);
+
+      if (await contract.hasRole(role, taskArgs.account)) {
+        console.log(`${taskArgs.account} already holds ${taskArgs.role}, nothing to do`);
+        return;
+      }
+
+      console.log(`Granting ${taskArgs.role} to ${taskArgs.account}...`);
+      const tx = await contract.grantRole(role, taskArgs.account);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify configuration
+      const granted = await contract.hasRole(role, taskArgs.account);
+      console.log("Verification:");
+      console.log("   Has role:", granted ? "✓" : "✗");
+      console.log();
+
+      console.log("Role granted successfully!");
+
+    } catch (error) {
+      console.error("\nGrant failed:", error);
+      throw error;
+    }
+  });
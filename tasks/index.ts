@@ -1,5 +1,33 @@
 // Load all task files
 require("./deployRatingConsumer");
 require("./deployRatingSender");
+require("./deployGovernanceAdapter");
+require("./deployments");
 require("./configureConsumer");
+require("./configureRefreshRoute");
 require("./configureSender");
+require("./sendSignedRatings");
+require("./configureRatingLimits");
+require("./approveScoreJump");
+require("./revokeRating");
+require("./requestRatingRefresh");
+require("./listRefreshRequests");
+require("./configureIsm");
+require("./withdrawSenderBalance");
+require("./configureLtvTiers");
+require("./configureAssetLtvTiers");
+require("./configureAggregation");
+require("./configureListeners");
+require("./configureGovernanceAdapter");
+require("./ratingHistory");
+require("./verifyRatingCommitment");
+require("./grantRole");
+require("./revokeRole");
+require("./listRoles");
+require("./transferUpgrader");
+require("./pause");
+require("./unpause");
+require("./queuedMessages");
+require("./proposeConsumerChange");
+require("./executeConsumerChange");
+require("./listPendingChanges");
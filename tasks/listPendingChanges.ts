@@ -0,0 +1,39 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { describeChange, formatEta } from "./consumerChanges";
+
+task("listPendingChanges", "List pending timelocked RatingConsumer changes")
+  .addParam("consumer", "RatingConsumer contract address")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nPending RatingConsumer changes on ${networkName}\n`);
+
+    try {
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      const delay = await ratingConsumer.changeDelay();
+      const [ids, changes] = await ratingConsumer.getPendingChanges();
+      const block = await hre.ethers.provider.getBlock("latest");
+
+      console.log("Change delay:", delay.toString(), "seconds");
+      console.log();
+
+      if (ids.length === 0) {
+        console.log("No pending changes");
+        return;
+      }
+
+      for (let i = 0; i < ids.length; i++) {
+        const ready = BigInt(block!.timestamp) >= changes[i].eta;
+        console.log(`${ids[i]}`);
+        console.log("  ", describeChange(hre, Number(changes[i].changeType), changes[i].data));
+        console.log("   Executable after:", formatEta(changes[i].eta), ready ? "✓ ready" : "pending");
+        console.log();
+      }
+
+    } catch (error) {
+      console.error("\nQuery failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,47 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEta } from "./consumerChanges";
+
+task("listRefreshRequests", "List rating refresh requests RatingSender has not answered yet")
+  .addParam("sender", "RatingSender contract address")
+  .addOptionalParam("fromblock", "First block to scan for RatingRefreshRequested events", "0")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nPending rating refresh requests on ${networkName}\n`);
+
+    try {
+      // Get RatingSender contract
+      const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
+
+      // Only the latest request per (domain, borrower) is stored; it is cleared once the borrower is rated there
+      const events = await ratingSender.queryFilter(
+        ratingSender.filters.RatingRefreshRequested(),
+        Number(taskArgs.fromblock)
+      );
+      const seen = new Set<string>();
+      let pending = 0;
+      for (const event of events) {
+        const parsed = ratingSender.interface.parseLog(event);
+        if (!parsed) continue;
+        const { originDomain, borrower } = parsed.args;
+        const key = `${originDomain}:${borrower}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const request = await ratingSender.refreshRequests(originDomain, borrower);
+        if (request.requestedAt === 0n) continue;
+
+        pending++;
+        console.log(`${borrower} on domain ${originDomain}`);
+        console.log("   Requested by:", request.requester);
+        console.log("   Requested at:", formatEta(request.requestedAt));
+        console.log();
+      }
+
+      console.log(pending === 0 ? "No pending requests" : `${pending} pending request(s)`);
+
+    } catch (error) {
+      console.error("\nQuery failed:", error);
+      throw error;
+    }
+  });
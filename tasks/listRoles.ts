@@ -0,0 +1,38 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ROLE_NAMES, getAccessControl, getProxyAdmin, resolveRole } from "./roles";
+
+task("listRoles", "List role holders on RatingSender or RatingConsumer")
+  .addParam("contract", "RatingSender or RatingConsumer contract address")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nRole holders for ${taskArgs.contract} on ${networkName}\n`);
+
+    try {
+      const contract = await getAccessControl(hre, taskArgs.contract);
+
+      for (const name of ROLE_NAMES) {
+        const role = await resolveRole(contract, name);
+        const members: string[] = await contract.getRoleMembers(role);
+
+        console.log(`${name} (${role}):`);
+        if (members.length === 0) {
+          console.log("   (none)");
+        }
+        for (const member of members) {
+          console.log(`   ${member}`);
+        }
+        console.log();
+      }
+
+      // Upgrade rights sit with the ProxyAdmin owner rather than a role
+      const proxyAdmin = await getProxyAdmin(hre, taskArgs.contract);
+      console.log(`upgrader (owner of ProxyAdmin ${await proxyAdmin.getAddress()}):`);
+      console.log(`   ${await proxyAdmin.owner()}`);
+      console.log();
+
+    } catch (error) {
+      console.error("\nQuery failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,96 @@
+import * as fs from "fs";
+
+/**
+ * Helpers shared by the LTV tier configuration tasks
+ */
+
+export interface LtvTier {
+  minScore: number;
+  ltvBps: number;
+  liquidationThresholdBps: number;
+  liquidationBonusBps: number;
+}
+
+const TIER_FIELDS: (keyof LtvTier)[] = ["minScore", "ltvBps", "liquidationThresholdBps", "liquidationBonusBps"];
+
+const formatTier = (tier: LtvTier): string => {
+  return `score >= ${tier.minScore} -> LTV ${tier.ltvBps} bps, ` +
+    `liquidation threshold ${tier.liquidationThresholdBps} bps, bonus ${tier.liquidationBonusBps} bps`;
+};
+
+const tierEquals = (a: LtvTier, b: LtvTier): boolean => {
+  return TIER_FIELDS.every((field) => a[field] === b[field]);
+};
+
+/**
+ * Convert tiers returned by the contract into plain numbers
+ */
+export const toLtvTiers = (tiers: any[]): LtvTier[] => {
+  return tiers.map((tier: any) => ({
+    minScore: Number(tier.minScore),
+    ltvBps: Number(tier.ltvBps),
+    liquidationThresholdBps: Number(tier.liquidationThresholdBps),
+    liquidationBonusBps: Number(tier.liquidationBonusBps),
+  }));
+};
+
+/**
+ * Sanity check a tier table parsed from JSON
+ * @param tiers Array of { minScore, ltvBps, liquidationThresholdBps, liquidationBonusBps }
+ * @param label Where the tiers came from, used in error messages
+ */
+export const parseLtvTiers = (tiers: any, label: string): LtvTier[] => {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    throw new Error(`Expected a non-empty array of tiers in ${label}`);
+  }
+
+  return tiers.map((tier: any, i: number) => {
+    for (const field of TIER_FIELDS) {
+      if (!Number.isInteger(tier[field])) {
+        throw new Error(`Tier ${i} in ${label} must have an integer ${field}`);
+      }
+    }
+    return {
+      minScore: tier.minScore,
+      ltvBps: tier.ltvBps,
+      liquidationThresholdBps: tier.liquidationThresholdBps,
+      liquidationBonusBps: tier.liquidationBonusBps,
+    };
+  });
+};
+
+/**
+ * Read and sanity check a tier table from a JSON file
+ * @param filePath Path to a JSON array of tiers
+ */
+export const readLtvTiersFile = (filePath: string): LtvTier[] => {
+  return parseLtvTiers(JSON.parse(fs.readFileSync(filePath, "utf8")), filePath);
+};
+
+export const ltvTiersEqual = (a: LtvTier[], b: LtvTier[]): boolean => {
+  return a.length === b.length && a.every((tier, i) => tierEquals(tier, b[i]));
+};
+
+/**
+ * Print a line per tier index, marking added (+), removed (-) and unchanged (=) tiers
+ * @returns Whether the tables differ
+ */
+export const diffLtvTiers = (current: LtvTier[], proposed: LtvTier[]): boolean => {
+  let changed = current.length !== proposed.length;
+
+  for (let i = 0; i < Math.max(current.length, proposed.length); i++) {
+    const before = current[i];
+    const after = proposed[i];
+
+    if (before && after && tierEquals(before, after)) {
+      console.log(`   = [${i}] ${formatTier(after)}`);
+      continue;
+    }
+
+    changed = true;
+    if (before) console.log(`   - [${i}] ${formatTier(before)}`);
+    if (after) console.log(`   + [${i}] ${formatTier(after)}`);
+  }
+
+  return changed;
+};
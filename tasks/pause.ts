@@ -0,0 +1,45 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { reportPauseState } from "./pauseState";
+
+task("pause", "Pause RatingSender or RatingConsumer")
+  .addParam("contract", "RatingSender or RatingConsumer contract address")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nPausing ${taskArgs.contract} on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Pausing with account:", deployer.address);
+      console.log();
+
+      console.log("Current state:");
+      const paused = await reportPauseState(hre, taskArgs.contract);
+      console.log();
+
+      if (paused) {
+        console.log("Already paused, nothing to do");
+        return;
+      }
+
+      const contract = await hre.ethers.getContractAt("RatingAccessControl", taskArgs.contract);
+      console.log("Pausing...");
+      const tx = await contract.pause();
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      console.log("Verification:");
+      const nowPaused = await reportPauseState(hre, taskArgs.contract);
+      console.log("   Match:", nowPaused ? "✓" : "✗");
+      console.log();
+
+      console.log("Pause completed successfully!");
+
+    } catch (error) {
+      console.error("\nPause failed:", error);
+      throw error;
+    }
+  });
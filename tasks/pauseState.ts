@@ -0,0 +1,37 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const PAUSED_MESSAGE_POLICIES = ["reject", "queue"];
+
+/**
+ * Print the pause state of RatingSender or RatingConsumer, plus the queue and
+ * circuit breaker state for consumers
+ * @returns Whether the contract is paused
+ */
+export const reportPauseState = async (hre: HardhatRuntimeEnvironment, address: string): Promise<boolean> => {
+  const contract = await hre.ethers.getContractAt("RatingAccessControl", address);
+  const paused = await contract.paused();
+  console.log("   Paused:", paused);
+
+  // Only RatingConsumer has a queue and breaker; senders revert on these calls
+  const consumer = await hre.ethers.getContractAt("RatingConsumer", address);
+  try {
+    const queued = await consumer.queuedMessageCount();
+    const policy = Number(await consumer.pausedMessagePolicy());
+    const maxLargeChanges = await consumer.breakerMaxLargeChanges();
+
+    console.log("   Paused message policy:", PAUSED_MESSAGE_POLICIES[policy] ?? policy);
+    console.log("   Queued messages:", queued.toString());
+    if (maxLargeChanges === 0n) {
+      console.log("   Circuit breaker: disabled");
+    } else {
+      console.log(
+        `   Circuit breaker: ${await consumer.breakerLargeChanges()}/${maxLargeChanges} changes ` +
+        `> ${await consumer.breakerScoreDelta()} points in the current ${await consumer.breakerWindow()}s window`
+      );
+    }
+  } catch {
+    // Not a RatingConsumer
+  }
+
+  return paused;
+};
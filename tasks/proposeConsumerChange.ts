@@ -0,0 +1,100 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDomainId } from "./constants";
+import { CHANGE_TYPES, formatEta, getProposedChangeId } from "./consumerChanges";
+
+task("proposeConsumerChange", "Propose a timelocked RatingConsumer change")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("type", `Change type (${CHANGE_TYPES.join(", ")})`)
+  .addParam(
+    "value",
+    "New value: seconds, LTV percentage, an address for mailbox/addSender/removeSender/ism/removeAssetLtvTiers, " +
+      "thresholdBps,bonusBps for liquidationParams or maxLargeChanges,scoreDelta,window for circuitBreaker"
+  )
+  .addOptionalParam("source", "Source network name for addSender/removeSender (e.g., sepolia, ethereum)")
+  .addOptionalParam("expiry", "Unix timestamp after which an added sender is rejected (0 = never)", "0")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nProposing RatingConsumer change on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Proposing with account:", deployer.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      let tx;
+      switch (taskArgs.type) {
+        case "maxRatingAge":
+          tx = await ratingConsumer.proposeMaxRatingAge(BigInt(taskArgs.value));
+          break;
+        case "defaultLTV":
+          tx = await ratingConsumer.proposeDefaultLTV(BigInt(taskArgs.value));
+          break;
+        case "addSender":
+        case "removeSender": {
+          if (!taskArgs.source) {
+            throw new Error(`--source is required for ${taskArgs.type}`);
+          }
+          const sourceDomain = getDomainId(taskArgs.source);
+          const senderBytes32 = hre.ethers.zeroPadValue(taskArgs.value, 32);
+          tx = taskArgs.type === "addSender"
+            ? await ratingConsumer.proposeAddAuthorizedSender(sourceDomain, senderBytes32, BigInt(taskArgs.expiry))
+            : await ratingConsumer.proposeRemoveAuthorizedSender(sourceDomain, senderBytes32);
+          break;
+        }
+        case "mailbox":
+          tx = await ratingConsumer.proposeMailbox(taskArgs.value);
+          break;
+        case "changeDelay":
+          tx = await ratingConsumer.proposeChangeDelay(BigInt(taskArgs.value));
+          break;
+        case "ism":
+          tx = await ratingConsumer.proposeInterchainSecurityModule(taskArgs.value);
+          break;
+        case "liquidationParams": {
+          const [thresholdBps, bonusBps] = taskArgs.value.split(",").map((value: string) => BigInt(value.trim()));
+          tx = await ratingConsumer.proposeDefaultLiquidationParams(thresholdBps, bonusBps);
+          break;
+        }
+        case "removeAssetLtvTiers":
+          tx = await ratingConsumer.proposeRemoveAssetLtvTiers(taskArgs.value);
+          break;
+        case "circuitBreaker": {
+          const [maxLargeChanges, scoreDelta, window] = taskArgs.value
+            .split(",")
+            .map((value: string) => BigInt(value.trim()));
+          tx = await ratingConsumer.proposeCircuitBreaker(maxLargeChanges, scoreDelta, window);
+          break;
+        }
+        case "ltvTiers":
+        case "assetLtvTiers":
+        case "aggregation":
+          throw new Error(
+            `Propose ${taskArgs.type} with configureLtvTiers, configureAssetLtvTiers or configureAggregation`
+          );
+        default:
+          throw new Error(`Unknown change type "${taskArgs.type}". Expected one of: ${CHANGE_TYPES.join(", ")}`);
+      }
+      console.log("Transaction hash:", tx.hash);
+
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      const id = getProposedChangeId(ratingConsumer, receipt);
+      const change = await ratingConsumer.getPendingChange(id);
+      console.log("Pending change:");
+      console.log("   Id:", id);
+      console.log("   Executable after:", formatEta(change.eta));
+      console.log();
+
+      console.log(`Run executeConsumerChange --consumer ${taskArgs.consumer} --id ${id} once the delay has passed`);
+
+    } catch (error) {
+      console.error("\nProposal failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,62 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { MessageType, decodeRatingMessage } from "./ratingMessage";
+
+task("queuedMessages", "List the messages RatingConsumer queued while paused, and optionally discard them")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addOptionalParam("discard", "Number of queued messages to drop from the head of the queue (pauser)", "0")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nQueued messages on ${networkName}\n`);
+
+    try {
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+
+      const head = await ratingConsumer.queueHead();
+      const count = await ratingConsumer.queuedMessageCount();
+      if (count === 0n) {
+        console.log("Queue is empty");
+        return;
+      }
+
+      // Inspect before processing: a forged or malformed message should be discarded, not applied
+      for (let index = head; index < head + count; index++) {
+        const [origin, sender, body] = await ratingConsumer.getQueuedMessage(index);
+        console.log(`#${index} from ${sender} on domain ${origin}`);
+        try {
+          const message = decodeRatingMessage(body);
+          console.log("   Type:", MessageType[message.type]);
+          console.log("   Nonce:", message.nonce.toString());
+          if ("borrower" in message) console.log("   Borrower:", message.borrower);
+          if ("ratings" in message) console.log("   Borrowers:", message.ratings.length);
+          if ("score" in message) console.log("   Score:", message.score);
+          if ("floorScore" in message) console.log("   Floor score:", message.floorScore);
+          if ("rater" in message) console.log("   Rater:", message.rater);
+        } catch (error: any) {
+          console.log("   Undecodable:", error.message);
+        }
+        console.log();
+      }
+
+      const discard = BigInt(taskArgs.discard);
+      if (discard > 0n) {
+        console.log(`Discarding up to ${discard} queued messages...`);
+        const tx = await ratingConsumer.discardQueuedMessages(discard);
+        console.log("Transaction hash:", tx.hash);
+
+        const receipt = await tx.wait();
+        for (const log of receipt!.logs) {
+          const parsed = ratingConsumer.interface.parseLog(log);
+          if (parsed?.name === "QueuedMessageDiscarded") {
+            console.log(`   Discarded queued message ${parsed.args.index}`);
+          }
+        }
+        console.log();
+        console.log("Queued messages left:", (await ratingConsumer.queuedMessageCount()).toString());
+      }
+
+    } catch (error) {
+      console.error("\nQuery failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,66 @@
+import { Signer, TypedDataDomain, TypedDataField, hexlify, randomBytes, verifyTypedData } from "ethers";
+
+/**
+ * EIP-712 signing for RatingSender.sendSignedRating
+ *
+ * A rater signs a RatingAttestation off-chain; anyone can then submit it and pay
+ * for the cross-chain messages.
+ */
+
+export const RATING_ATTESTATION_TYPES: Record<string, TypedDataField[]> = {
+  RatingAttestation: [
+    { name: "borrower", type: "address" },
+    { name: "score", type: "uint8" },
+    { name: "issuedAt", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface RatingAttestation {
+  borrower: string;
+  score: number;
+  issuedAt: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface SignedRatingAttestation extends RatingAttestation {
+  rater: string;
+  signature: string;
+}
+
+/**
+ * Read the signing domain of a RatingSender from its ERC-5267 eip712Domain()
+ */
+export const getRatingSenderDomain = async (ratingSender: any): Promise<TypedDataDomain> => {
+  const { name, version, chainId, verifyingContract } = await ratingSender.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+};
+
+/**
+ * Random nonce; RatingSender accepts each (rater, nonce) once in any order
+ */
+export const randomAttestationNonce = (): bigint => {
+  return BigInt(hexlify(randomBytes(32)));
+};
+
+export const signRatingAttestation = async (
+  rater: Signer,
+  domain: TypedDataDomain,
+  attestation: RatingAttestation
+): Promise<SignedRatingAttestation> => {
+  const signature = await rater.signTypedData(domain, RATING_ATTESTATION_TYPES, attestation);
+  return { ...attestation, rater: await rater.getAddress(), signature };
+};
+
+/**
+ * Address that signed an attestation, as RatingSender recovers it
+ */
+export const recoverRatingAttestationSigner = (
+  domain: TypedDataDomain,
+  attestation: RatingAttestation,
+  signature: string
+): string => {
+  return verifyTypedData(domain, RATING_ATTESTATION_TYPES, attestation, signature);
+};
@@ -0,0 +1,63 @@
+import { AbiCoder, getAddress, hexlify, keccak256, randomBytes } from "ethers";
+
+/**
+ * Commitments for RatingSender.sendPrivateRating
+ *
+ * A private rating publishes only the floor of the consumer tier the score falls in and
+ * keccak256(abi.encode(borrower, score, salt)). Raters keep the salts; auditors
+ * given a (score, salt) opening can check it against the commitment stored by
+ * RatingConsumer without the score ever appearing on-chain.
+ */
+
+export interface RatingCommitmentOpening {
+  borrower: string;
+  score: number;
+  salt: string;  // 32 bytes hex
+}
+
+export interface RatingCommitment extends RatingCommitmentOpening {
+  commitment: string;
+}
+
+export const randomCommitmentSalt = (): string => {
+  return hexlify(randomBytes(32));
+};
+
+export const computeRatingCommitment = (opening: RatingCommitmentOpening): string => {
+  if (!Number.isInteger(opening.score) || opening.score < 0 || opening.score > 100) {
+    throw new Error(`Invalid score: ${opening.score}`);
+  }
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(["address", "uint8", "bytes32"], [opening.borrower, opening.score, opening.salt])
+  );
+};
+
+/**
+ * Commit to a score under a fresh salt, unless one is given
+ */
+export const buildRatingCommitment = (
+  borrower: string,
+  score: number,
+  salt: string = randomCommitmentSalt()
+): RatingCommitment => {
+  const opening = { borrower: getAddress(borrower), score, salt };
+  return { ...opening, commitment: computeRatingCommitment(opening) };
+};
+
+/**
+ * Whether an opening matches a commitment read from RatingConsumer
+ */
+export const verifyRatingCommitment = (commitment: string, opening: RatingCommitmentOpening): boolean => {
+  return computeRatingCommitment(opening) === commitment.toLowerCase();
+};
+
+/**
+ * Floor score of the tier a score falls in, given the consumer's getLtvTiers() (highest threshold first)
+ */
+export const getTierFloor = (tiers: { minScore: number | bigint }[], score: number): number => {
+  const tier = tiers.find((tier) => score >= Number(tier.minScore));
+  if (!tier) {
+    throw new Error(`Score ${score} is below every tier`);
+  }
+  return Number(tier.minScore);
+};
@@ -0,0 +1,88 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const formatTime = (timestamp: bigint): string => {
+  return new Date(Number(timestamp) * 1000).toISOString();
+};
+
+task("ratingHistory", "Print a borrower's rating history from RatingConsumer")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("borrower", "Borrower address")
+  .addOptionalParam("offset", "Number of newer entries to skip", "0")
+  .addOptionalParam("limit", "Maximum number of entries to print", "20")
+  .addOptionalParam("at", "Only print the rating in effect at this unix timestamp")
+  .addOptionalParam("json", "Print JSON instead of a table", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const json = taskArgs.json === "true";
+
+    try {
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+      const borrower = hre.ethers.getAddress(taskArgs.borrower);
+
+      let entries: { score: bigint; timestamp: bigint; receivedAt: bigint; rater: string }[];
+      let total: bigint;
+      let revokedSince = false;
+
+      if (taskArgs.at !== undefined) {
+        const rating = await ratingConsumer.getRatingAt(borrower, BigInt(taskArgs.at));
+        entries = rating.found
+          ? [{ score: rating.score, timestamp: rating.ratingTimestamp, receivedAt: rating.receivedAt, rater: rating.rater }]
+          : [];
+        total = BigInt(entries.length);
+        revokedSince = rating.revoked;
+      } else {
+        [entries, total] = await ratingConsumer.getRatingHistory(borrower, BigInt(taskArgs.offset), BigInt(taskArgs.limit));
+      }
+
+      const revokedAt = await ratingConsumer.revokedAt(borrower);
+
+      const rows = entries.map((entry, i) => ({
+        index: taskArgs.at !== undefined ? 0 : Number(taskArgs.offset) + i,
+        score: Number(entry.score),
+        timestamp: Number(entry.timestamp),
+        receivedAt: Number(entry.receivedAt),
+        rater: entry.rater,
+      }));
+
+      if (json) {
+        const output = { borrower, total: Number(total), revokedAt: Number(revokedAt), ratings: rows };
+        console.log(JSON.stringify(taskArgs.at !== undefined ? { ...output, revoked: revokedSince } : output, null, 2));
+        return;
+      }
+
+      console.log(`\nRating history for ${borrower} on ${hre.network.name}\n`);
+      if (taskArgs.at !== undefined) {
+        console.log(`Rating in effect at ${formatTime(BigInt(taskArgs.at))}:`);
+      } else {
+        console.log(`Retained entries: ${total} (newest first)`);
+      }
+      if (revokedAt > 0n) {
+        console.log(`Ratings issued up to ${formatTime(revokedAt)} are revoked`);
+      }
+      if (revokedSince) {
+        console.log("This rating has been revoked since");
+      }
+      console.log();
+
+      if (rows.length === 0) {
+        console.log("No ratings found");
+        return;
+      }
+
+      console.log(`${"#".padEnd(5)}${"Score".padEnd(7)}${"Issued at".padEnd(26)}${"Received at".padEnd(26)}Rater`);
+      for (const row of rows) {
+        // Ratings delivered before messages carried the rater have none
+        const rater = row.rater === hre.ethers.ZeroAddress ? "unknown" : row.rater;
+        console.log(
+          `${String(row.index).padEnd(5)}${String(row.score).padEnd(7)}` +
+          `${formatTime(BigInt(row.timestamp)).padEnd(26)}${formatTime(BigInt(row.receivedAt)).padEnd(26)}${rater}`
+        );
+      }
+      console.log();
+
+    } catch (error) {
+      console.error("\nQuery failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,182 @@
+import { AbiCoder, concat, dataLength, dataSlice, toBeHex, zeroPadValue } from "ethers";
+
+/**
+ * TypeScript mirror of contracts/libraries/RatingMessage.sol
+ *
+ * Layout: version (1 byte) | message type (1 byte) | nonce (32 bytes) | abi encoded payload
+ * Only the current version is decoded; 1.0.0 senders sent headerless bodies. Refresh
+ * requests are sent by RatingConsumer back to RatingSender.
+ */
+
+export const RATING_MESSAGE_VERSION = 3;
+export const RATING_MESSAGE_HEADER_LENGTH = 34;
+
+export enum MessageType {
+  Rating = 0,
+  Batch = 1,
+  Revocation = 2,
+  Config = 3,
+  PrivateRating = 4,
+  RefreshRequest = 5,
+}
+
+const RATING_PAYLOAD_TYPES = ["address", "uint8", "uint256", "address", "uint256"];
+const BATCH_PAYLOAD_TYPES = ["address[]", "uint8[]", "uint256", "address", "uint256"];
+const REVOCATION_PAYLOAD_TYPES = ["address", "uint256", "address", "string"];
+const PRIVATE_RATING_PAYLOAD_TYPES = ["address", "uint8", "bytes32", "uint256", "address", "uint256"];
+const REFRESH_REQUEST_PAYLOAD_TYPES = ["address", "address"];
+
+interface MessageHeader {
+  version?: number;  // header only, defaults to RATING_MESSAGE_VERSION
+  nonce: bigint;
+  rater: string;
+}
+
+export interface SingleRatingMessage extends MessageHeader {
+  type: MessageType.Rating;
+  borrower: string;
+  score: number;
+  timestamp: bigint;
+  expiresAt?: bigint;  // zero or omitted => no expiry
+}
+
+export interface BatchRatingMessage extends MessageHeader {
+  type: MessageType.Batch;
+  ratings: { borrower: string; score: number }[];
+  timestamp: bigint;
+  expiresAt?: bigint;
+}
+
+export interface RevocationMessage extends MessageHeader {
+  type: MessageType.Revocation;
+  borrower: string;
+  timestamp: bigint;
+  reason: string;
+}
+
+export interface PrivateRatingMessage extends MessageHeader {
+  type: MessageType.PrivateRating;
+  borrower: string;
+  floorScore: number;  // minScore of the consumer tier the exact score falls in
+  commitment: string;  // see ratingCommitment.ts
+  timestamp: bigint;
+  expiresAt: bigint;
+}
+
+export interface RefreshRequestMessage extends Omit<MessageHeader, "rater"> {
+  type: MessageType.RefreshRequest;
+  borrower: string;
+  requester: string;  // caller of requestRatingRefresh on the consumer
+}
+
+export type RatingMessage =
+  | SingleRatingMessage
+  | BatchRatingMessage
+  | RevocationMessage
+  | PrivateRatingMessage
+  | RefreshRequestMessage;
+
+const encodeHeader = (version: number, type: MessageType, nonce: bigint): string => {
+  return concat([toBeHex(version, 1), toBeHex(type, 1), zeroPadValue(toBeHex(nonce), 32)]);
+};
+
+/**
+ * Encode a message body the same way RatingSender does
+ */
+export const encodeRatingMessage = (message: RatingMessage): string => {
+  const version = message.version ?? RATING_MESSAGE_VERSION;
+  const coder = AbiCoder.defaultAbiCoder();
+  const header = encodeHeader(version, message.type, message.nonce);
+
+  switch (message.type) {
+    case MessageType.Rating:
+      return concat([
+        header,
+        coder.encode(RATING_PAYLOAD_TYPES, [
+          message.borrower,
+          message.score,
+          message.timestamp,
+          message.rater,
+          message.expiresAt ?? 0n,
+        ]),
+      ]);
+    case MessageType.Batch:
+      return concat([
+        header,
+        coder.encode(BATCH_PAYLOAD_TYPES, [
+          message.ratings.map((rating) => rating.borrower),
+          message.ratings.map((rating) => rating.score),
+          message.timestamp,
+          message.rater,
+          message.expiresAt ?? 0n,
+        ]),
+      ]);
+    case MessageType.Revocation:
+      return concat([
+        header,
+        coder.encode(REVOCATION_PAYLOAD_TYPES, [message.borrower, message.timestamp, message.rater, message.reason]),
+      ]);
+    case MessageType.PrivateRating:
+      return concat([
+        header,
+        coder.encode(PRIVATE_RATING_PAYLOAD_TYPES, [
+          message.borrower,
+          message.floorScore,
+          message.commitment,
+          message.timestamp,
+          message.rater,
+          message.expiresAt,
+        ]),
+      ]);
+    case MessageType.RefreshRequest:
+      return concat([header, coder.encode(REFRESH_REQUEST_PAYLOAD_TYPES, [message.borrower, message.requester])]);
+    default:
+      throw new Error(`Unsupported message type: ${(message as any).type}`);
+  }
+};
+
+/**
+ * Decode a RatingSender message body
+ */
+export const decodeRatingMessage = (body: string): RatingMessage => {
+  if (dataLength(body) < RATING_MESSAGE_HEADER_LENGTH) {
+    throw new Error("Malformed rating message: body shorter than header");
+  }
+
+  const version = Number(dataSlice(body, 0, 1));
+  if (version !== RATING_MESSAGE_VERSION) {
+    throw new Error(`Unsupported rating message version: ${version}`);
+  }
+
+  const type = Number(dataSlice(body, 1, 2));
+  const nonce = BigInt(dataSlice(body, 2, RATING_MESSAGE_HEADER_LENGTH));
+  const payload = dataSlice(body, RATING_MESSAGE_HEADER_LENGTH);
+  const coder = AbiCoder.defaultAbiCoder();
+
+  switch (type) {
+    case MessageType.Rating: {
+      const [borrower, score, timestamp, rater, expiresAt] = coder.decode(RATING_PAYLOAD_TYPES, payload);
+      return { version, type, nonce, rater, borrower, score: Number(score), timestamp, expiresAt };
+    }
+    case MessageType.Batch: {
+      const [borrowers, scores, timestamp, rater, expiresAt] = coder.decode(BATCH_PAYLOAD_TYPES, payload);
+      const ratings = borrowers.map((borrower: string, i: number) => ({ borrower, score: Number(scores[i]) }));
+      return { version, type, nonce, rater, ratings, timestamp, expiresAt };
+    }
+    case MessageType.Revocation: {
+      const [borrower, timestamp, rater, reason] = coder.decode(REVOCATION_PAYLOAD_TYPES, payload);
+      return { version, type, nonce, rater, borrower, timestamp, reason };
+    }
+    case MessageType.PrivateRating: {
+      const [borrower, floorScore, commitment, timestamp, rater, expiresAt] =
+        coder.decode(PRIVATE_RATING_PAYLOAD_TYPES, payload);
+      return { version, type, nonce, rater, borrower, floorScore: Number(floorScore), commitment, timestamp, expiresAt };
+    }
+    case MessageType.RefreshRequest: {
+      const [borrower, requester] = coder.decode(REFRESH_REQUEST_PAYLOAD_TYPES, payload);
+      return { version, type, nonce, borrower, requester };
+    }
+    default:
+      throw new Error(`Unsupported rating message type: ${type}`);
+  }
+};
@@ -0,0 +1,54 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+task("requestRatingRefresh", "Ask the source chain RatingSender for a new rating of a borrower")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("borrower", "Borrower address")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nRequesting rating refresh on ${networkName}\n`);
+
+    try {
+      const [requester] = await hre.ethers.getSigners();
+      console.log("Requesting with account:", requester.address);
+      console.log();
+
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+      const borrower = hre.ethers.getAddress(taskArgs.borrower);
+      console.log("Borrower:", borrower);
+      console.log("Source domain:", (await ratingConsumer.refreshDomain()).toString());
+      console.log("RatingSender:", await ratingConsumer.refreshRecipient());
+
+      const fee = await ratingConsumer.quoteRatingRefresh(borrower);
+      console.log("Fee:", hre.ethers.formatEther(fee), "ETH");
+
+      console.log("Sending refresh request...");
+      const tx = await ratingConsumer.requestRatingRefresh(borrower, { value: fee });
+      console.log("Transaction hash:", tx.hash);
+
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify the request was dispatched
+      let requested;
+      for (const log of receipt!.logs) {
+        const parsed = ratingConsumer.interface.parseLog(log);
+        if (parsed?.name === "RatingRefreshRequested") requested = parsed;
+      }
+      console.log("Verification:");
+      console.log("   Request dispatched:", requested ? "✓" : "✗");
+      if (requested) {
+        console.log("   Nonce:", requested.args.nonce.toString());
+        console.log("   Message ID:", requested.args.messageId);
+      }
+      console.log();
+
+      console.log("Refresh requested; the scoring service answers once it is relayed to RatingSender");
+
+    } catch (error) {
+      console.error("\nRefresh request failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,61 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDomainId } from "./constants";
+
+task("revokeRating", "Revoke a borrower's ratings on a destination chain through RatingSender")
+  .addParam("sender", "RatingSender contract address")
+  .addParam("destination", "Destination network name (e.g., arbitrum)")
+  .addParam("borrower", "Borrower address")
+  .addParam("reason", "Reason emitted with the revocation (e.g., \"fraud\")")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nRevoking rating on ${networkName}\n`);
+
+    try {
+      const [rater] = await hre.ethers.getSigners();
+      console.log("Revoking with account:", rater.address);
+      console.log();
+
+      // Get destination domain ID
+      const destinationDomain = getDomainId(taskArgs.destination);
+      const borrower = hre.ethers.getAddress(taskArgs.borrower);
+      console.log("Destination network:", taskArgs.destination);
+      console.log("Destination domain:", destinationDomain);
+      console.log("Borrower:", borrower);
+      console.log("Reason:", taskArgs.reason);
+      console.log();
+
+      // Get RatingSender contract
+      const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
+      const fee = await ratingSender.quoteRevocation(destinationDomain, borrower, taskArgs.reason);
+      console.log("Fee:", hre.ethers.formatEther(fee), "ETH");
+
+      console.log("Sending revocation...");
+      const tx = await ratingSender.revokeRating(destinationDomain, borrower, taskArgs.reason, { value: fee });
+      console.log("Transaction hash:", tx.hash);
+
+      const receipt = await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify the revocation was dispatched
+      let sent;
+      for (const log of receipt!.logs) {
+        const parsed = ratingSender.interface.parseLog(log);
+        if (parsed?.name === "RatingRevocationSent") sent = parsed;
+      }
+      console.log("Verification:");
+      console.log("   Revocation dispatched:", sent ? "✓" : "✗");
+      if (sent) {
+        console.log("   Nonce:", sent.args.nonce.toString());
+        console.log("   Message ID:", sent.args.messageId);
+      }
+      console.log();
+
+      console.log("Revocation sent; LTV falls back to the default once it is relayed");
+
+    } catch (error) {
+      console.error("\nRevocation failed:", error);
+      throw error;
+    }
+  });
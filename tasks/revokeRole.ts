@@ -0,0 +1,46 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ROLE_NAMES, getAccessControl, resolveRole } from "./roles";
+
+task("revokeRole", "Revoke a role on RatingSender or RatingConsumer")
+  .addParam("contract", "RatingSender or RatingConsumer contract address")
+  .addParam("role", `Role name (${ROLE_NAMES.join(", ")})`)
+  .addParam("account", "Account losing the role")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nRevoking ${taskArgs.role} role on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Revoking with account:", deployer.address);
+      console.log();
+
+      const contract = await getAccessControl(hre, taskArgs.contract);
+      const role = await resolveRole(contract, taskArgs.role);
+
+      if (!(await contract.hasRole(role, taskArgs.account))) {
+        console.log(`${taskArgs.account} does not hold ${taskArgs.role}, nothing to do`);
+        return;
+      }
+
+      console.log(`Revoking ${taskArgs.role} from ${taskArgs.account}...`);
+      const tx = await contract.revokeRole(role, taskArgs.account);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify configuration
+      const revoked = !(await contract.hasRole(role, taskArgs.account));
+      console.log("Verification:");
+      console.log("   Role removed:", revoked ? "✓" : "✗");
+      console.log();
+
+      console.log("Role revoked successfully!");
+
+    } catch (error) {
+      console.error("\nRevoke failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,73 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Helpers shared by the role management tasks
+ */
+
+// Task-facing role name => constant getter on RatingAccessControl
+export const ROLE_GETTERS: { [name: string]: string } = {
+  admin: "DEFAULT_ADMIN_ROLE",
+  raterManager: "RATER_MANAGER_ROLE",
+  riskParameterManager: "RISK_PARAMETER_MANAGER_ROLE",
+  pauser: "PAUSER_ROLE",
+  ratingApprover: "RATING_APPROVER_ROLE",
+};
+
+export const ROLE_NAMES = Object.keys(ROLE_GETTERS);
+
+/**
+ * Attach to RatingSender or RatingConsumer through the shared access control ABI
+ */
+export const getAccessControl = async (hre: HardhatRuntimeEnvironment, address: string) => {
+  return hre.ethers.getContractAt("RatingAccessControl", address);
+};
+
+/**
+ * Resolve a role name (e.g. "raterManager") to its bytes32 id
+ */
+export const resolveRole = async (contract: any, name: string): Promise<string> => {
+  const getter = ROLE_GETTERS[name];
+  if (!getter) {
+    throw new Error(`Unknown role "${name}". Expected one of: ${ROLE_NAMES.join(", ")}`);
+  }
+  return contract[getter]();
+};
+
+const PROXY_ADMIN_ABI = [
+  "function owner() view returns (address)",
+  "function transferOwnership(address newOwner)",
+];
+
+/**
+ * ProxyAdmin of a transparent proxy; its owner is the only account that can upgrade the proxy
+ */
+export const getProxyAdmin = async (hre: HardhatRuntimeEnvironment, proxyAddress: string) => {
+  const adminAddress = await hre.upgrades.erc1967.getAdminAddress(proxyAddress);
+  return hre.ethers.getContractAt(PROXY_ADMIN_ABI, adminAddress);
+};
+
+/**
+ * Hand the upgrade rights of a proxy to `upgrader` by transferring ownership of its ProxyAdmin
+ * @dev Must be sent by the current ProxyAdmin owner; does nothing when `upgrader` already owns it
+ * @returns Whether ownership was transferred
+ */
+export const transferUpgrader = async (
+  hre: HardhatRuntimeEnvironment,
+  proxyAddress: string,
+  upgrader: string
+): Promise<boolean> => {
+  if (!hre.ethers.isAddress(upgrader) || upgrader === hre.ethers.ZeroAddress) {
+    throw new Error(`Invalid upgrader address: ${upgrader}`);
+  }
+
+  const proxyAdmin = await getProxyAdmin(hre, proxyAddress);
+  const currentOwner: string = await proxyAdmin.owner();
+  if (currentOwner.toLowerCase() === upgrader.toLowerCase()) {
+    return false;
+  }
+
+  const tx = await proxyAdmin.transferOwnership(upgrader);
+  console.log("Transaction hash:", tx.hash);
+  await tx.wait();
+  return true;
+};
@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  SignedRatingAttestation,
+  getRatingSenderDomain,
+  randomAttestationNonce,
+  signRatingAttestation,
+} from "./ratingAttestation";
+
+interface CsvRating {
+  borrower: string;
+  score: number;
+  issuedAt?: bigint;
+}
+
+/**
+ * Parse `borrower,score[,issuedAt]` rows under a header line naming the columns
+ */
+const readRatingsCsv = (filePath: string): CsvRating[] => {
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+  const header = (lines.shift() ?? "").split(",").map((column) => column.trim());
+  if (header[0] !== "borrower" || header[1] !== "score" || (header.length === 3 && header[2] !== "issuedAt") || header.length > 3) {
+    throw new Error(`${filePath}: expected a "borrower,score[,issuedAt]" header`);
+  }
+
+  return lines.map((line, i) => {
+    const [borrower, score, issuedAt] = line.split(",").map((value) => value.trim());
+    const parsedScore = Number(score);
+    if (!Number.isInteger(parsedScore) || parsedScore < 0 || parsedScore > 100) {
+      throw new Error(`${filePath}:${i + 2}: score must be an integer between 0 and 100`);
+    }
+    return { borrower, score: parsedScore, issuedAt: issuedAt ? BigInt(issuedAt) : undefined };
+  });
+};
+
+task("sendSignedRatings", "Sign ratings from a CSV as a rater and submit them through sendSignedRating")
+  .addParam("sender", "RatingSender contract address")
+  .addParam("file", "CSV file with a borrower,score[,issuedAt] header")
+  .addOptionalParam("validity", "Seconds each signature stays valid", "3600")
+  .addOptionalParam("out", "Write the signed attestations to this JSON file")
+  .addOptionalParam("dryrun", "Only sign, without submitting", "false")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nSending signed ratings on ${networkName}\n`);
+
+    try {
+      const [payer] = await hre.ethers.getSigners();
+      // The rater key only signs; the payer submits and pays for the messages
+      const rater = process.env.RATER_PRIVATE_KEY
+        ? new hre.ethers.Wallet(process.env.RATER_PRIVATE_KEY)
+        : payer;
+      console.log("Signing as rater:", await rater.getAddress());
+      console.log("Submitting with account:", payer.address);
+      console.log();
+
+      // Get RatingSender contract
+      const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
+      if (!(await ratingSender.authorizedRaters(await rater.getAddress()))) {
+        throw new Error(`${await rater.getAddress()} is not an authorized rater`);
+      }
+
+      const domain = await getRatingSenderDomain(ratingSender);
+      const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+      const ratings = readRatingsCsv(taskArgs.file);
+      console.log(`Signing ${ratings.length} ratings...`);
+
+      const signed: SignedRatingAttestation[] = [];
+      for (const rating of ratings) {
+        signed.push(await signRatingAttestation(rater, domain, {
+          borrower: hre.ethers.getAddress(rating.borrower),
+          score: rating.score,
+          issuedAt: rating.issuedAt ?? now,
+          nonce: randomAttestationNonce(),
+          deadline: now + BigInt(taskArgs.validity),
+        }));
+      }
+      console.log();
+
+      if (taskArgs.out) {
+        const json = signed.map((attestation) => ({
+          ...attestation,
+          issuedAt: attestation.issuedAt.toString(),
+          nonce: attestation.nonce.toString(),
+          deadline: attestation.deadline.toString(),
+        }));
+        fs.writeFileSync(taskArgs.out, JSON.stringify(json, null, 2));
+        console.log(`Signed attestations written to ${taskArgs.out}`);
+        console.log();
+      }
+
+      if (taskArgs.dryrun === "true") {
+        console.log("Dry run, no transaction sent");
+        return;
+      }
+
+      let submitted = 0;
+      for (const attestation of signed) {
+        console.log(`Submitting ${attestation.borrower} -> ${attestation.score}...`);
+        try {
+          const fee = await ratingSender.quoteGasPaymentAll(attestation.borrower, attestation.score);
+          const tx = await ratingSender.sendSignedRating(
+            attestation.borrower,
+            attestation.score,
+            attestation.issuedAt,
+            attestation.nonce,
+            attestation.deadline,
+            attestation.signature,
+            { value: fee }
+          );
+          console.log("   Transaction hash:", tx.hash);
+
+          await tx.wait();
+          submitted++;
+        } catch (error: any) {
+          // Keep going so one bad row does not strand the rest of the file
+          console.log("   Failed:", error.shortMessage ?? error.message);
+        }
+      }
+      console.log();
+
+      // Verify every nonce was consumed on-chain
+      let consumed = 0;
+      for (const attestation of signed) {
+        if (await ratingSender.usedAttestationNonces(attestation.rater, attestation.nonce)) consumed++;
+      }
+      console.log("Verification:");
+      console.log(`   Submitted: ${submitted}/${signed.length}`, submitted === signed.length ? "✓" : "✗");
+      console.log(`   Nonces used: ${consumed}/${signed.length}`, consumed === signed.length ? "✓" : "✗");
+      console.log();
+
+      if (submitted !== signed.length) {
+        throw new Error(`${signed.length - submitted} ratings were not submitted`);
+      }
+
+      console.log("Signed ratings sent successfully!");
+
+    } catch (error) {
+      console.error("\nSending failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,42 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getProxyAdmin, transferUpgrader } from "./roles";
+
+task("transferUpgrader", "Hand the upgrade rights of RatingSender or RatingConsumer to a separate account")
+  .addParam("contract", "RatingSender or RatingConsumer proxy address")
+  .addParam("upgrader", "Account that will own the proxy's ProxyAdmin")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nTransferring upgrade rights for ${taskArgs.contract} on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Transferring with account:", deployer.address);
+
+      const proxyAdmin = await getProxyAdmin(hre, taskArgs.contract);
+      console.log("ProxyAdmin:", await proxyAdmin.getAddress());
+      console.log("Current upgrader:", await proxyAdmin.owner());
+      console.log();
+
+      console.log(`Transferring ProxyAdmin ownership to ${taskArgs.upgrader}...`);
+      if (!(await transferUpgrader(hre, taskArgs.contract, taskArgs.upgrader))) {
+        console.log(`${taskArgs.upgrader} already owns the ProxyAdmin, nothing to do`);
+        return;
+      }
+      console.log("Transaction confirmed");
+      console.log();
+
+      // Verify configuration
+      const owner: string = await proxyAdmin.owner();
+      console.log("Verification:");
+      console.log("   Upgrader:", owner);
+      console.log("   Match:", owner.toLowerCase() === taskArgs.upgrader.toLowerCase() ? "✓" : "✗");
+      console.log();
+
+      console.log("Upgrade rights transferred successfully!");
+
+    } catch (error) {
+      console.error("\nTransfer failed:", error);
+      throw error;
+    }
+  });
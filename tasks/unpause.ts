@@ -0,0 +1,65 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { reportPauseState } from "./pauseState";
+
+task("unpause", "Unpause RatingSender or RatingConsumer")
+  .addParam("contract", "RatingSender or RatingConsumer contract address")
+  .addOptionalParam("process", "RatingConsumer only: number of queued messages to apply after unpausing", "0")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nUnpausing ${taskArgs.contract} on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Unpausing with account:", deployer.address);
+      console.log();
+
+      console.log("Current state:");
+      const paused = await reportPauseState(hre, taskArgs.contract);
+      console.log();
+
+      if (paused) {
+        const contract = await hre.ethers.getContractAt("RatingAccessControl", taskArgs.contract);
+        console.log("Unpausing...");
+        const tx = await contract.unpause();
+        console.log("Transaction hash:", tx.hash);
+
+        await tx.wait();
+        console.log("Transaction confirmed");
+        console.log();
+      } else {
+        console.log("Not paused");
+        console.log();
+      }
+
+      const maxCount = BigInt(taskArgs.process);
+      if (maxCount > 0n) {
+        const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.contract);
+        console.log(`Processing up to ${maxCount} queued messages...`);
+        const tx = await ratingConsumer.processQueuedMessages(maxCount);
+        console.log("Transaction hash:", tx.hash);
+
+        const receipt = await tx.wait();
+        for (const log of receipt!.logs) {
+          const parsed = ratingConsumer.interface.parseLog(log);
+          if (parsed?.name === "QueuedMessageProcessed") {
+            console.log(`   Applied queued message ${parsed.args.index}`);
+          } else if (parsed?.name === "QueuedMessageFailed") {
+            console.log(`   Dropped queued message ${parsed.args.index}: ${parsed.args.reason}`);
+          }
+        }
+        console.log();
+      }
+
+      console.log("Verification:");
+      const stillPaused = await reportPauseState(hre, taskArgs.contract);
+      console.log("   Match:", stillPaused ? "✗" : "✓");
+      console.log();
+
+      console.log("Unpause completed successfully!");
+
+    } catch (error) {
+      console.error("\nUnpause failed:", error);
+      throw error;
+    }
+  });
@@ -1,9 +1,11 @@
-import * as fs from "fs";
-import * as path from "path";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { Contract } from "ethers";
-
-const deploymentsPath = path.join(__dirname, "..", "deployments");
+import {
+  getDeployedAddresses,
+  readDeploymentManifest,
+  recordDeployment,
+  writeDeploymentManifest,
+} from "./deploymentManifest";
 
 export interface DeploymentAddresses {
   [networkName: string]: {
@@ -11,34 +13,137 @@ export interface DeploymentAddresses {
   };
 }
 
+/**
+ * Contract name => address for a network, from either manifest version
+ */
 export const readDeployedAddressesWithNetwork = (networkName: string): any => {
-  const filePath = path.join(deploymentsPath, `${networkName}.json`);
-  if (!fs.existsSync(filePath)) {
-    return {};
-  }
-  const content = fs.readFileSync(filePath, "utf8");
-  return JSON.parse(content);
+  return getDeployedAddresses(readDeploymentManifest(networkName));
 };
 
+/**
+ * Point `contractName` at `address` without recording a deployment; prefer recordDeployment
+ */
 export const writeDeployedAddressesWithNetwork = (
   networkName: string,
   contractName: string,
   address: string
 ): void => {
-  if (!fs.existsSync(deploymentsPath)) {
-    fs.mkdirSync(deploymentsPath, { recursive: true });
+  const manifest = readDeploymentManifest(networkName);
+  const previous = manifest.contracts[contractName];
+  manifest.contracts[contractName] = previous?.address === address
+    ? previous
+    : { address, history: [] };
+  writeDeploymentManifest(manifest);
+};
+
+const UPGRADED_EVENT_ABI = ["event Upgraded(address indexed implementation)"];
+const UPGRADE_POLL_INTERVAL_MS = 2000;
+const UPGRADE_POLL_ATTEMPTS = 60;
+
+/**
+ * Hash of the transaction that last upgraded `proxyAddress`, from its Upgraded event
+ * @dev upgradeProxy returns without waiting for the upgrade to be mined, so the event is polled for
+ * @param fromBlock Block number read before the upgrade was sent
+ */
+const findUpgradeTransaction = async (
+  hre: HardhatRuntimeEnvironment,
+  proxyAddress: string,
+  fromBlock: number
+): Promise<string | null> => {
+  const proxy = new hre.ethers.Contract(proxyAddress, UPGRADED_EVENT_ABI, hre.ethers.provider);
+  for (let attempt = 0; attempt < UPGRADE_POLL_ATTEMPTS; attempt++) {
+    const events = await proxy.queryFilter(proxy.filters.Upgraded(), fromBlock);
+    if (events.length > 0) {
+      return events[events.length - 1].transactionHash;
+    }
+    await new Promise((resolve) => setTimeout(resolve, UPGRADE_POLL_INTERVAL_MS));
+  }
+  return null;
+};
+
+// External libraries linked into each contract, deployed fresh with every implementation
+const LINKED_LIBRARIES: { [contractName: string]: string[] } = {
+  RatingConsumer: ["LtvTierLogic", "RatingHistoryLogic"],
+  RatingConsumerAdmin: ["LtvTierLogic"],
+};
+
+// Modules an implementation delegatecalls, deployed fresh with it and passed to its constructor
+const IMPLEMENTATION_MODULES: { [contractName: string]: string[] } = {
+  RatingConsumer: ["RatingConsumerAdmin"],
+};
+
+/**
+ * Deploy the libraries and modules an implementation needs
+ * @returns The linked factory and the module addresses its constructor expects first
+ */
+export const prepareImplementation = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string
+) => {
+  const { ethers } = hre;
+  const deployedLibraries: { [libraryName: string]: string } = {};
+
+  const getLinkedFactory = async (name: string) => {
+    const libraries: { [libraryName: string]: string } = {};
+    for (const libraryName of LINKED_LIBRARIES[name] || []) {
+      if (!deployedLibraries[libraryName]) {
+        const library = await (await ethers.getContractFactory(libraryName)).deploy();
+        await library.waitForDeployment();
+        deployedLibraries[libraryName] = await library.getAddress();
+      }
+      libraries[libraryName] = deployedLibraries[libraryName];
+    }
+    return ethers.getContractFactory(name, { libraries });
+  };
+
+  const constructorArgs: string[] = [];
+  for (const moduleName of IMPLEMENTATION_MODULES[contractName] || []) {
+    const module = await (await getLinkedFactory(moduleName)).deploy();
+    await module.waitForDeployment();
+    constructorArgs.push(await module.getAddress());
   }
 
-  const filePath = path.join(deploymentsPath, `${networkName}.json`);
-  let addresses: any = {};
+  return { factory: await getLinkedFactory(contractName), constructorArgs };
+};
 
-  if (fs.existsSync(filePath)) {
-    const content = fs.readFileSync(filePath, "utf8");
-    addresses = JSON.parse(content);
+/**
+ * Initializer to run atomically with an upgrade, passed as upgradeProxy's `call`
+ */
+export interface UpgradeCall {
+  fn: string;
+  args: unknown[];
+}
+
+// version() of the Ownable implementation that initializeV2 migrates from
+const OWNABLE_VERSION = "1.0.0";
+
+/**
+ * Migration to run with the upgrade when the deployed proxy still runs the Ownable implementation
+ * @param legacyDomains Comma separated domains configured on that proxy, required to migrate it
+ * @returns undefined when there is no proxy yet or it has already been migrated
+ */
+export const getOwnableMigrationCall = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  legacyDomains?: string
+): Promise<UpgradeCall | undefined> => {
+  const proxyAddress = readDeployedAddressesWithNetwork(hre.network.name)[contractName];
+  if (!proxyAddress) return undefined;
+
+  const deployed = await hre.ethers.getContractAt(contractName, proxyAddress);
+  if ((await deployed.version()) !== OWNABLE_VERSION) return undefined;
+  if (legacyDomains === undefined) {
+    throw new Error(
+      `${contractName} at ${proxyAddress} still runs ${OWNABLE_VERSION}; pass --legacydomains with its configured domains`
+    );
   }
 
-  addresses[contractName] = address;
-  fs.writeFileSync(filePath, JSON.stringify(addresses, null, 2));
+  const domains = legacyDomains
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter((domain) => domain.length > 0)
+    .map(Number);
+  return { fn: "initializeV2", args: [domains] };
 };
 
 export const deployContractWithProxy = async (
@@ -46,12 +151,15 @@ export const deployContractWithProxy = async (
   contractName: string,
   initArgs: any[],
   constructorArgs: any[] = [],
-  verify: boolean = false
+  verify: boolean = false,
+  upgradeCall?: UpgradeCall
 ): Promise<Contract> => {
   const networkName = hre.network.name;
   const existingAddresses = readDeployedAddressesWithNetwork(networkName);
-  const { upgrades, ethers } = hre;
-  const ContractFactory = await ethers.getContractFactory(contractName);
+  const { upgrades } = hre;
+  const implementation = await prepareImplementation(hre, contractName);
+  const ContractFactory = implementation.factory;
+  const implementationArgs = [...implementation.constructorArgs, ...constructorArgs];
 
   let deployedContract: Contract;
   let contractAddress: string;
@@ -62,10 +170,16 @@ export const deployContractWithProxy = async (
     const proxyAddress = existingAddresses[contractName];
     console.log(`Existing proxy: ${proxyAddress}`);
 
+    if (upgradeCall) console.log(`Calling ${upgradeCall.fn} as part of the upgrade`);
+
+    const fromBlock = await hre.ethers.provider.getBlockNumber();
     deployedContract = await upgrades.upgradeProxy(proxyAddress, ContractFactory, {
-      constructorArgs: constructorArgs,
+      kind: "transparent",
+      call: upgradeCall,
+      constructorArgs: implementationArgs,
       unsafeAllowCustomTypes: true,
       unsafeAllow: ["constructor", "state-variable-immutable", "delegatecall"],
+      unsafeAllowLinkedLibraries: true,
       redeployImplementation: "always",
     });
 
@@ -73,9 +187,11 @@ export const deployContractWithProxy = async (
     contractAddress = await deployedContract.getAddress();
     console.log(`${contractName} upgraded successfully! Address: ${contractAddress}`);
 
-    // Get implementation address
-    const implAddress = await upgrades.erc1967.getImplementationAddress(contractAddress);
-    console.log(`New implementation: ${implAddress}`);
+    // Record the new implementation in the manifest
+    const upgradeTxHash = await findUpgradeTransaction(hre, proxyAddress, fromBlock);
+    if (!upgradeTxHash) throw new Error(`Upgrade transaction for ${contractName} not found`);
+    const record = await recordDeployment(hre, contractName, deployedContract, "upgrade", upgradeTxHash, "transparent");
+    console.log(`New implementation: ${record.implementation}`);
   } else {
     // DEPLOY new proxy
     console.log(`\n=== Deploying ${contractName} (Proxy) on ${networkName} ===`);
@@ -83,10 +199,12 @@ export const deployContractWithProxy = async (
       ContractFactory,
       initArgs,
       {
+        kind: "transparent",
         initializer: 'initialize',
-        constructorArgs: constructorArgs,
+        constructorArgs: implementationArgs,
         unsafeAllowCustomTypes: true,
         unsafeAllow: ["constructor", "state-variable-immutable", "delegatecall"],
+        unsafeAllowLinkedLibraries: true,
       }
     );
 
@@ -94,12 +212,11 @@ export const deployContractWithProxy = async (
     contractAddress = await deployedContract.getAddress();
     console.log(`${contractName} proxy deployed to: ${contractAddress}`);
 
-    // Get implementation address
-    const implAddress = await upgrades.erc1967.getImplementationAddress(contractAddress);
-    console.log(`Implementation: ${implAddress}`);
-
-    // Save new address to deployments
-    writeDeployedAddressesWithNetwork(networkName, contractName, contractAddress);
+    // Save new address and implementation to deployments
+    const deployTx = deployedContract.deploymentTransaction();
+    if (!deployTx) throw new Error(`Deployment transaction for ${contractName} not found`);
+    const record = await recordDeployment(hre, contractName, deployedContract, "deploy", deployTx.hash, "transparent");
+    console.log(`Implementation: ${record.implementation}`);
   }
 
   if (verify && hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
@@ -108,7 +225,7 @@ export const deployContractWithProxy = async (
       const implAddress = await upgrades.erc1967.getImplementationAddress(contractAddress);
       await hre.run("verify:verify", {
         address: implAddress,
-        constructorArguments: constructorArgs,
+        constructorArguments: implementationArgs,
       });
       console.log(`${contractName} verified successfully`);
     } catch (error: any) {
@@ -151,7 +268,7 @@ export const deployContract = async (
   console.log(`${contractName} deployed to: ${contractAddress}`);
 
   // Save address to deployments
-  writeDeployedAddressesWithNetwork(networkName, contractName, contractAddress);
+  await recordDeployment(hre, contractName, deployedContract, "deploy", deployedContract.deploymentTransaction()!.hash);
 
   if (verify && hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
     console.log(`Verifying ${contractName}...`);
@@ -181,9 +298,7 @@ export const getDeployedContract = async (
     throw new Error(`${contractName} not found in deployments for ${network}`);
   }
 
-  const { ethers } = hre;
-  const ContractFactory = await ethers.getContractFactory(contractName);
-  return ContractFactory.attach(addresses[contractName]);
+  return hre.ethers.getContractAt(contractName, addresses[contractName]);
 };
 
 export const logDeploymentSummary = (networkName: string): void => {
@@ -0,0 +1,56 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { computeRatingCommitment, getTierFloor } from "./ratingCommitment";
+
+task("verifyRatingCommitment", "Check a private rating opening against the commitments stored by RatingConsumer")
+  .addParam("consumer", "RatingConsumer contract address")
+  .addParam("borrower", "Borrower address")
+  .addParam("score", "Exact score the rater committed to")
+  .addParam("salt", "32-byte salt the rater committed with")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    console.log(`\nVerifying rating commitment on ${hre.network.name}\n`);
+
+    try {
+      // Get RatingConsumer contract
+      const ratingConsumer = await hre.ethers.getContractAt("RatingConsumer", taskArgs.consumer);
+      const borrower = hre.ethers.getAddress(taskArgs.borrower);
+      const score = Number(taskArgs.score);
+      const commitment = computeRatingCommitment({ borrower, score, salt: taskArgs.salt });
+      console.log("Borrower:", borrower);
+      console.log("Commitment:", commitment);
+      console.log();
+
+      // The latest rating plus every retained history entry
+      const latest = await ratingConsumer.borrowerRatings(borrower);
+      const depth = await ratingConsumer.ratingHistoryDepth();
+      const [history] = await ratingConsumer.getRatingHistory(borrower, 0, depth);
+      const match = [latest, ...history].find((rating: any) => rating.commitment === commitment);
+
+      console.log("Verification:");
+      if (!match) {
+        console.log("   Commitment found: ✗");
+        console.log();
+        throw new Error("No retained rating carries this commitment");
+      }
+      console.log("   Commitment found: ✓");
+      console.log("   Issued at:", new Date(Number(match.timestamp) * 1000).toISOString());
+      console.log("   Rater:", match.rater);
+
+      // The floor the rater sent must not overstate the opened score
+      console.log("   Floor at or below score:", Number(match.score) <= score ? "✓" : "✗", `floor ${match.score}`);
+      const tiers = await ratingConsumer.getLtvTiers();
+      console.log(
+        "   Floor of the score's current tier:",
+        getTierFloor(tiers, score) === Number(match.score) ? "✓" : "✗ (tiers may have changed since sending)"
+      );
+      console.log();
+
+      if (Number(match.score) > score) {
+        throw new Error(`Stored floor ${match.score} is above the opened score ${score}`);
+      }
+
+    } catch (error) {
+      console.error("\nVerification failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,52 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+task("withdrawSenderBalance", "Report and sweep native balance stranded in RatingSender")
+  .addParam("sender", "RatingSender contract address")
+  .addOptionalParam("to", "Recipient of the withdrawn funds (defaults to the signer)")
+  .addOptionalParam("amount", "Amount to withdraw in ETH (defaults to the full balance)")
+  .setAction(async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const networkName = hre.network.name;
+    console.log(`\nWithdrawing RatingSender balance on ${networkName}\n`);
+
+    try {
+      const [deployer] = await hre.ethers.getSigners();
+      console.log("Withdrawing with account:", deployer.address);
+      console.log();
+
+      // Get RatingSender contract
+      const ratingSender = await hre.ethers.getContractAt("RatingSender", taskArgs.sender);
+
+      const balance = await ratingSender.strandedBalance();
+      const totalFeesPaid = await ratingSender.totalFeesPaid();
+      console.log("Balance report:");
+      console.log("   Total fees paid to mailbox:", hre.ethers.formatEther(totalFeesPaid), "ETH");
+      console.log("   Stranded balance:", hre.ethers.formatEther(balance), "ETH");
+      console.log();
+
+      const amount = taskArgs.amount ? hre.ethers.parseEther(taskArgs.amount) : balance;
+      if (amount === 0n) {
+        console.log("Nothing to withdraw");
+        return;
+      }
+
+      const to = taskArgs.to || deployer.address;
+      console.log(`Withdrawing ${hre.ethers.formatEther(amount)} ETH to ${to}...`);
+      const tx = await ratingSender.withdraw(to, amount);
+      console.log("Transaction hash:", tx.hash);
+
+      await tx.wait();
+      console.log("Transaction confirmed");
+      console.log();
+
+      console.log("Verification:");
+      console.log("   Remaining balance:", hre.ethers.formatEther(await ratingSender.strandedBalance()), "ETH");
+      console.log();
+
+      console.log("Withdrawal completed successfully!");
+
+    } catch (error) {
+      console.error("\nWithdrawal failed:", error);
+      throw error;
+    }
+  });
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  ARBITRUM_DOMAIN,
+  DISPATCH_FEE,
+  applyConsumerChange,
+  deliverRating,
+  deployLocalRatingSystem,
+} from "./helpers/fixtures";
+
+const RATING = 0;
+const FALLBACK = 1;
+const OVERRIDE = 2;
+
+const deployLendingMarket = async () => {
+  const system = await deployLocalRatingSystem();
+  const adapter = await ethers.deployContract("AaveGovernanceAdapter", [
+    await system.ratingConsumer.getAddress(),
+    system.owner.address,
+    0,
+    10_000,
+  ]);
+  const pool = await ethers.deployContract("MockLendingPool", [await adapter.getAddress()]);
+  await pool.connect(system.borrower).supply(1000);
+  return { ...system, adapter, pool };
+};
+
+describe("AaveGovernanceAdapter", function () {
+  it("Should move borrow limits as ratings move", async function () {
+    const system = await loadFixture(deployLendingMarket);
+    const { adapter, pool, borrower } = system;
+
+    // Unrated borrowers get the lowest tier
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([4000n, FALLBACK]);
+    expect((await pool.getUserAccountData(borrower.address)).availableBorrowsBase).to.equal(400);
+
+    await deliverRating(system, borrower.address, 85);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([7500n, RATING]);
+    await pool.connect(borrower).borrow(700);
+
+    await deliverRating(system, borrower.address, 55);
+    const account = await pool.getUserAccountData(borrower.address);
+    expect(account.ltv).to.equal(6000);
+    expect(account.availableBorrowsBase).to.equal(0);
+    await expect(pool.connect(borrower).borrow(1))
+      .to.be.revertedWithCustomError(pool, "BorrowLimitExceeded")
+      .withArgs(0, 1);
+
+    await pool.connect(borrower).repay(200);
+    await pool.connect(borrower).borrow(100);
+  });
+
+  it("Should fall back to the lowest tier when ratings go stale or are revoked", async function () {
+    const system = await loadFixture(deployLendingMarket);
+    const { adapter, ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+
+    // A lowest tier below defaultLTV shows which one the adapter uses
+    await applyConsumerChange(ratingConsumer, ratingConsumer.proposeLtvTiers([
+      { minScore: 80, ltvBps: 7500, liquidationThresholdBps: 8000, liquidationBonusBps: 10500 },
+      { minScore: 0, ltvBps: 3000, liquidationThresholdBps: 5000, liquidationBonusBps: 11000 },
+    ]));
+    expect(await adapter.lowestTierLtvBps()).to.equal(3000);
+
+    await deliverRating(system, borrower.address, 85);
+    await time.increase(await ratingConsumer.maxRatingAge());
+    expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([3000n, FALLBACK]);
+
+    await deliverRating(system, borrower.address, 85);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([7500n, RATING]);
+
+    const tx = await ratingSender.connect(rater).revokeRating(ARBITRUM_DOMAIN, borrower.address, "fraud", {
+      value: DISPATCH_FEE,
+    });
+    await relayer.relay(await tx.wait());
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([3000n, FALLBACK]);
+  });
+
+  it("Should clamp every LTV to the governance bounds", async function () {
+    const system = await loadFixture(deployLendingMarket);
+    const { adapter, pool, borrower, other } = system;
+
+    await expect(adapter.connect(other).setLtvBounds(5000, 7000))
+      .to.be.revertedWithCustomError(adapter, "AccessControlUnauthorizedAccount");
+    await expect(adapter.setLtvBounds(7000, 5000))
+      .to.be.revertedWithCustomError(adapter, "InvalidLtvBounds")
+      .withArgs(7000, 5000);
+    await expect(adapter.setLtvBounds(0, 10_001))
+      .to.be.revertedWithCustomError(adapter, "InvalidLtvBounds");
+    await expect(adapter.setLtvBounds(5000, 7000))
+      .to.emit(adapter, "LtvBoundsUpdated")
+      .withArgs(5000, 7000);
+
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([5000n, FALLBACK]);
+
+    await deliverRating(system, borrower.address, 85);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([7000n, RATING]);
+    expect((await pool.getUserAccountData(borrower.address)).availableBorrowsBase).to.equal(700);
+  });
+
+  it("Should apply per-borrower overrides until they expire or are removed", async function () {
+    const system = await loadFixture(deployLendingMarket);
+    const { adapter, pool, borrower, other } = system;
+    await deliverRating(system, borrower.address, 85);
+
+    await expect(adapter.connect(other).setBorrowerOverride(borrower.address, 2000, 0))
+      .to.be.revertedWithCustomError(adapter, "AccessControlUnauthorizedAccount");
+    await adapter.setLtvBounds(1000, 8000);
+    await expect(adapter.setBorrowerOverride(borrower.address, 9000, 0))
+      .to.be.revertedWithCustomError(adapter, "LtvOutOfBounds")
+      .withArgs(9000);
+    await expect(adapter.setBorrowerOverride(borrower.address, 2000, await time.latest()))
+      .to.be.revertedWithCustomError(adapter, "InvalidOverrideExpiry");
+
+    const expiresAt = (await time.latest()) + 3600;
+    await expect(adapter.setBorrowerOverride(borrower.address, 2000, expiresAt))
+      .to.emit(adapter, "BorrowerOverrideSet")
+      .withArgs(borrower.address, 2000, expiresAt);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([2000n, OVERRIDE]);
+    expect((await pool.getUserAccountData(borrower.address)).availableBorrowsBase).to.equal(200);
+
+    // Overrides stay inside bounds raised after they were set
+    await adapter.setLtvBounds(2500, 8000);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([2500n, OVERRIDE]);
+
+    await time.increaseTo(expiresAt);
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([7500n, RATING]);
+
+    await adapter.setBorrowerOverride(borrower.address, 3000, 0);
+    await expect(adapter.removeBorrowerOverride(borrower.address))
+      .to.emit(adapter, "BorrowerOverrideRemoved")
+      .withArgs(borrower.address);
+    await expect(adapter.removeBorrowerOverride(borrower.address))
+      .to.be.revertedWithCustomError(adapter, "OverrideNotFound");
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([7500n, RATING]);
+  });
+
+  it("Should fall back to the lowest tier while the consumer is paused", async function () {
+    const system = await loadFixture(deployLendingMarket);
+    const { adapter, ratingConsumer, borrower } = system;
+
+    await deliverRating(system, borrower.address, 85);
+    await ratingConsumer.pause();
+    expect(await adapter.getBorrowerLtv(borrower.address)).to.deep.equal([4000n, FALLBACK]);
+  });
+});
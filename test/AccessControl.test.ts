@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { RatingConsumer, RatingSender } from "../typechain-types";
+import { getProxyAdmin, transferUpgrader } from "../tasks/roles";
+import { prepareImplementation } from "../tasks/utils";
+import { deployLocalRatingSystem } from "./helpers/fixtures";
+
+describe("Access Control", function () {
+  it("Should grant every role to the deployer", async function () {
+    const { ratingSender, ratingConsumer, owner } = await loadFixture(deployLocalRatingSystem);
+
+    for (const contract of [ratingSender, ratingConsumer]) {
+      for (const role of [
+        await contract.DEFAULT_ADMIN_ROLE(),
+        await contract.RATER_MANAGER_ROLE(),
+        await contract.RISK_PARAMETER_MANAGER_ROLE(),
+        await contract.PAUSER_ROLE(),
+        await contract.RATING_APPROVER_ROLE(),
+      ]) {
+        expect(await contract.getRoleMembers(role)).to.deep.equal([owner.address]);
+      }
+    }
+  });
+
+  it("Should let a rater manager manage raters without admin rights", async function () {
+    const { ratingSender, rater, other } = await loadFixture(deployLocalRatingSystem);
+
+    await ratingSender.grantRole(await ratingSender.RATER_MANAGER_ROLE(), other.address);
+
+    await expect(ratingSender.connect(other).revokeRater(rater.address))
+      .to.emit(ratingSender, "RaterRevoked")
+      .withArgs(rater.address);
+    await expect(ratingSender.connect(other).setMailbox(other.address))
+      .to.be.revertedWithCustomError(ratingSender, "AccessControlUnauthorizedAccount")
+      .withArgs(other.address, await ratingSender.DEFAULT_ADMIN_ROLE());
+  });
+
+  it("Should keep risk parameters separate from the cross-chain wiring", async function () {
+    const { ratingConsumer, owner, other } = await loadFixture(deployLocalRatingSystem);
+
+    const riskRole = await ratingConsumer.RISK_PARAMETER_MANAGER_ROLE();
+    await ratingConsumer.grantRole(riskRole, other.address);
+    await ratingConsumer.revokeRole(riskRole, owner.address);
+
+    await expect(ratingConsumer.connect(other).proposeMaxRatingAge(3600))
+      .to.emit(ratingConsumer, "ChangeProposed");
+    await expect(ratingConsumer.connect(other).proposeAddAuthorizedSender(1, ethers.ZeroHash, 0))
+      .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+    await expect(ratingConsumer.proposeDefaultLTV(30))
+      .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount")
+      .withArgs(owner.address, riskRole);
+  });
+
+  it("Should only upgrade through the ProxyAdmin", async function () {
+    const { ratingConsumer, owner } = await loadFixture(deployLocalRatingSystem);
+
+    // Role holders reach the implementation, which has no upgrade entry point
+    const { factory, constructorArgs } = await prepareImplementation(hre, "RatingConsumer");
+    const implementation = await factory.deploy(...constructorArgs);
+    const upgradeable = await ethers.getContractAt(
+      ["function upgradeToAndCall(address newImplementation, bytes data)"],
+      await ratingConsumer.getAddress()
+    );
+    await expect(upgradeable.connect(owner).upgradeToAndCall(await implementation.getAddress(), "0x"))
+      .to.be.reverted;
+
+    // The deployer owns the ProxyAdmin, which upgrades the proxy
+    const proxyAddress = await ratingConsumer.getAddress();
+    const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+    await upgrades.upgradeProxy(ratingConsumer, factory, {
+      constructorArgs,
+      unsafeAllowLinkedLibraries: true,
+      redeployImplementation: "always",
+    });
+    expect(await upgrades.erc1967.getImplementationAddress(proxyAddress)).to.not.equal(previousImplementation);
+  });
+
+  it("Should hand upgrade rights to a separate upgrader", async function () {
+    const { ratingConsumer, owner, other } = await loadFixture(deployLocalRatingSystem);
+    const proxyAddress = await ratingConsumer.getAddress();
+
+    expect(await transferUpgrader(hre, proxyAddress, other.address)).to.be.true;
+    expect(await (await getProxyAdmin(hre, proxyAddress)).owner()).to.equal(other.address);
+    expect(await transferUpgrader(hre, proxyAddress, other.address)).to.be.false;
+
+    // The deployer keeps its roles but can no longer upgrade
+    const { factory, constructorArgs } = await prepareImplementation(hre, "RatingConsumer");
+    const options = { constructorArgs, unsafeAllowLinkedLibraries: true, redeployImplementation: "always" as const };
+    await expect(upgrades.upgradeProxy(ratingConsumer, factory, options)).to.be.reverted;
+    expect(await ratingConsumer.hasRole(await ratingConsumer.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+
+    const previousImplementation = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+    await upgrades.upgradeProxy(ratingConsumer, factory.connect(other), options);
+    expect(await upgrades.erc1967.getImplementationAddress(proxyAddress)).to.not.equal(previousImplementation);
+  });
+
+  describe("Ownable Migration", function () {
+    const deployLegacyProxies = async () => {
+      const [owner, other] = await ethers.getSigners();
+      const mailbox = other.address;
+
+      const legacyConsumer = await upgrades.deployProxy(
+        await ethers.getContractFactory("LegacyOwnableRatingConsumer"),
+        [mailbox],
+        { initializer: "initialize" }
+      );
+      const legacySenderBytes32 = ethers.zeroPadValue(other.address, 32);
+      await legacyConsumer.setAuthorizedSender(1, legacySenderBytes32);
+
+      const legacySender = await upgrades.deployProxy(
+        await ethers.getContractFactory("LegacyOwnableRatingSender"),
+        [mailbox],
+        { initializer: "initialize" }
+      );
+      await legacySender.setDestinationRecipient(42161, legacySenderBytes32);
+
+      return { owner, other, mailbox, legacySenderBytes32, legacyConsumer, legacySender };
+    };
+
+    /**
+     * Upgrade the legacy proxies, running initializeV2 in the same transaction when `migrate` is set
+     */
+    const upgradeLegacyProxies = async (
+      { legacyConsumer, legacySender }: Awaited<ReturnType<typeof deployLegacyProxies>>,
+      migrate: boolean
+    ) => {
+      const { factory, constructorArgs } = await prepareImplementation(hre, "RatingConsumer");
+      const ratingConsumer = await upgrades.upgradeProxy(legacyConsumer, factory, {
+        kind: "transparent",
+        constructorArgs,
+        unsafeAllowLinkedLibraries: true,
+        call: migrate ? { fn: "initializeV2", args: [[1, 10]] } : undefined,
+      }) as unknown as RatingConsumer;
+      const ratingSender = await upgrades.upgradeProxy(legacySender, await ethers.getContractFactory("RatingSender"), {
+        kind: "transparent",
+        call: migrate ? { fn: "initializeV2", args: [[42161, 10]] } : undefined,
+      }) as unknown as RatingSender;
+
+      return { ratingConsumer, ratingSender };
+    };
+
+    it("Should migrate in the upgrade transaction", async function () {
+      const legacy = await loadFixture(deployLegacyProxies);
+      const { owner, mailbox, legacySenderBytes32 } = legacy;
+      const { ratingConsumer, ratingSender } = await upgradeLegacyProxies(legacy, true);
+
+      for (const contract of [ratingSender, ratingConsumer]) {
+        expect(await contract.hasRole(await contract.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+        expect(await contract.hasRole(await contract.PAUSER_ROLE(), owner.address)).to.be.true;
+        expect(await contract.version()).to.equal("2.0.0");
+      }
+
+      // State from the legacy implementation is preserved and defaults are seeded
+      expect(await ratingConsumer.mailbox()).to.equal(mailbox);
+      expect(await ratingConsumer.defaultLTV()).to.equal(40);
+      expect(await ratingConsumer.getLtvTiers()).to.have.length(3);
+      expect(await ratingConsumer.ratingHistoryDepth()).to.equal(16);
+      expect(await ratingConsumer.changeDelay()).to.equal(await ratingConsumer.DEFAULT_CHANGE_DELAY());
+      expect(await ratingConsumer.isAuthorizedSender(1, legacySenderBytes32)).to.be.true;
+      expect(await ratingSender.getDestinationDomains()).to.deep.equal([42161n]);
+      expect((await ratingSender.eip712Domain()).name).to.equal("RatingSender");
+
+      await expect(ratingConsumer.initializeV2([]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidInitialization");
+    });
+
+    it("Should let the previous owner migrate after the upgrade, once", async function () {
+      const legacy = await loadFixture(deployLegacyProxies);
+      const { owner, other } = legacy;
+      const { ratingConsumer, ratingSender } = await upgradeLegacyProxies(legacy, false);
+
+      await expect(ratingConsumer.connect(other).initializeV2([]))
+        .to.be.revertedWithCustomError(ratingConsumer, "NotLegacyOwner")
+        .withArgs(other.address);
+
+      await expect(ratingConsumer.initializeV2([]))
+        .to.emit(ratingConsumer, "LegacyOwnerMigrated")
+        .withArgs(owner.address);
+      await expect(ratingSender.initializeV2([]))
+        .to.emit(ratingSender, "LegacyOwnerMigrated")
+        .withArgs(owner.address);
+      await expect(ratingConsumer.initializeV2([]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidInitialization");
+    });
+
+    it("Should move the legacy authorized sender into the sender set", async function () {
+      const legacy = await loadFixture(deployLegacyProxies);
+      const { legacySenderBytes32 } = legacy;
+      const { ratingConsumer } = await upgradeLegacyProxies(legacy, false);
+
+      // Domains without a legacy sender are skipped
+      await expect(ratingConsumer.initializeV2([1, 10]))
+        .to.emit(ratingConsumer, "AuthorizedSenderAdded")
+        .withArgs(1, legacySenderBytes32, 0);
+
+      expect(await ratingConsumer.authorizedSenders(1)).to.equal(ethers.ZeroHash);
+      expect(await ratingConsumer.isAuthorizedSender(1, legacySenderBytes32)).to.be.true;
+      const [senders] = await ratingConsumer.getAuthorizedSenders(10);
+      expect(senders).to.deep.equal([]);
+    });
+
+    it("Should register the legacy destinations and the signing domain", async function () {
+      const legacy = await loadFixture(deployLegacyProxies);
+      const { ratingSender } = await upgradeLegacyProxies(legacy, false);
+      expect((await ratingSender.eip712Domain()).name).to.equal("");
+
+      // Domains without a recipient are skipped
+      await ratingSender.initializeV2([42161, 10]);
+      expect(await ratingSender.getDestinationDomains()).to.deep.equal([42161n]);
+      const domain = await ratingSender.eip712Domain();
+      expect(domain.name).to.equal("RatingSender");
+      expect(domain.version).to.equal("1");
+    });
+
+    it("Should not migrate a proxy that never had an owner", async function () {
+      const { ratingConsumer, ratingSender, owner } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.initializeV2([]))
+        .to.be.revertedWithCustomError(ratingConsumer, "NotLegacyOwner")
+        .withArgs(owner.address);
+      await expect(ratingSender.initializeV2([]))
+        .to.be.revertedWithCustomError(ratingSender, "NotLegacyOwner")
+        .withArgs(owner.address);
+    });
+  });
+});
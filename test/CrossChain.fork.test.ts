@@ -1,8 +1,11 @@
 import { expect } from "chai";
-import { ethers, upgrades, network } from "hardhat";
+import hre, { ethers, upgrades, network } from "hardhat";
 import { RatingSender, RatingConsumer } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-toolbox/node_modules/@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MessageType, encodeRatingMessage } from "../tasks/ratingMessage";
+import { prepareImplementation } from "../tasks/utils";
+import { applyConsumerChange, clearChangeDelay } from "./helpers/fixtures";
 
 describe("Cross-Chain Rating System Test", function () {
   let ratingSender: RatingSender;
@@ -33,19 +36,20 @@ describe("Cross-Chain Rating System Test", function () {
     ) as unknown as RatingSender;
     await ratingSender.waitForDeployment();
 
-    const RatingConsumerFactory = await ethers.getContractFactory("RatingConsumer");
+    const { factory: RatingConsumerFactory, constructorArgs } = await prepareImplementation(hre, "RatingConsumer");
     ratingConsumer = await upgrades.deployProxy(
       RatingConsumerFactory,
       [ETHEREUM_MAILBOX],
-      { initializer: "initialize" }
+      { initializer: "initialize", constructorArgs, unsafeAllowLinkedLibraries: true }
     ) as unknown as RatingConsumer;
     await ratingConsumer.waitForDeployment();
+    await clearChangeDelay(ratingConsumer);
 
     const consumerBytes32 = ethers.zeroPadValue(await ratingConsumer.getAddress(), 32);
     await ratingSender.setDestinationRecipient(ARBITRUM_DOMAIN, consumerBytes32);
 
     const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
-    await ratingConsumer.setAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32);
+    await applyConsumerChange(ratingConsumer, ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32, 0));
 
     await network.provider.request({
       method: "hardhat_impersonateAccount",
@@ -102,10 +106,14 @@ describe("Cross-Chain Rating System Test", function () {
       console.log("      Message ID:", parsedLog!.args.messageId);
 
       // Simulate message arrival at RatingConsumer
-      const messageBody = ethers.AbiCoder.defaultAbiCoder().encode(
-        ["address", "uint8", "uint256"],
-        [borrower.address, score, timestamp]
-      );
+      const messageBody = encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrower.address,
+        score,
+        timestamp,
+        nonce: parsedLog!.args.nonce,
+        rater: owner.address,
+      });
 
       const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
 
@@ -121,7 +129,7 @@ describe("Cross-Chain Rating System Test", function () {
 
       await expect(handleTx)
         .to.emit(ratingConsumer, "RatingUpdated")
-        .withArgs(borrower.address, score, timestamp, block!.timestamp);
+        .withArgs(borrower.address, score, timestamp, block!.timestamp, owner.address);
 
       console.log("      Rating received and stored");
 
@@ -137,7 +145,7 @@ describe("Cross-Chain Rating System Test", function () {
       console.log("      Valid:", rating.isValid);
 
       // Verify LTV calculation
-      const ltv = await ratingConsumer.getBorrowerLTV(borrower.address);
+      const ltv = await ratingConsumer["getBorrowerLTV(address)"](borrower.address);
       expect(ltv).to.equal(75);
 
       console.log("      LTV:", ltv + "%");
@@ -175,10 +183,14 @@ describe("Cross-Chain Rating System Test", function () {
         const timestamp = parsedLog!.args.timestamp;
 
         // Deliver message
-        const messageBody = ethers.AbiCoder.defaultAbiCoder().encode(
-          ["address", "uint8", "uint256"],
-          [address, score, timestamp]
-        );
+        const messageBody = encodeRatingMessage({
+          type: MessageType.Rating,
+          borrower: address,
+          score,
+          timestamp,
+          nonce: parsedLog!.args.nonce,
+          rater: owner.address,
+        });
 
         const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
 
@@ -192,9 +204,9 @@ describe("Cross-Chain Rating System Test", function () {
       }
 
       // Verify all LTVs
-      expect(await ratingConsumer.getBorrowerLTV(borrowers[0].address)).to.equal(75); // 90 -> 75%
-      expect(await ratingConsumer.getBorrowerLTV(borrowers[1].address)).to.equal(60); // 65 -> 60%
-      expect(await ratingConsumer.getBorrowerLTV(borrowers[2].address)).to.equal(40); // 40 -> 40%
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrowers[0].address)).to.equal(75); // 90 -> 75%
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrowers[1].address)).to.equal(60); // 65 -> 60%
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrowers[2].address)).to.equal(40); // 40 -> 40%
 
       console.log("      All LTVs calculated correctly");
     });
@@ -220,10 +232,14 @@ describe("Cross-Chain Rating System Test", function () {
       const parsedLog = ratingSender.interface.parseLog(log as any);
       const timestamp = parsedLog!.args.timestamp;
 
-      const messageBody = ethers.AbiCoder.defaultAbiCoder().encode(
-        ["address", "uint8", "uint256"],
-        [borrower.address, score, timestamp]
-      );
+      const messageBody = encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrower.address,
+        score,
+        timestamp,
+        nonce: parsedLog!.args.nonce,
+        rater: owner.address,
+      });
 
       const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
 
@@ -271,10 +287,14 @@ describe("Cross-Chain Rating System Test", function () {
       let parsedLog = ratingSender.interface.parseLog(log as any);
       let timestamp = parsedLog!.args.timestamp;
 
-      let messageBody = ethers.AbiCoder.defaultAbiCoder().encode(
-        ["address", "uint8", "uint256"],
-        [borrowerAddr, score, timestamp]
-      );
+      let messageBody = encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrowerAddr,
+        score,
+        timestamp,
+        nonce: parsedLog!.args.nonce,
+        rater: owner.address,
+      });
 
       const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
 
@@ -284,7 +304,7 @@ describe("Cross-Chain Rating System Test", function () {
         messageBody
       );
 
-      let ltv = await ratingConsumer.getBorrowerLTV(borrowerAddr);
+      let ltv = await ratingConsumer["getBorrowerLTV(address)"](borrowerAddr);
       expect(ltv).to.equal(60);
 
       console.log("      Initial rating:", score, "-> LTV:", ltv + "%");
@@ -312,10 +332,14 @@ describe("Cross-Chain Rating System Test", function () {
       parsedLog = ratingSender.interface.parseLog(log as any);
       timestamp = parsedLog!.args.timestamp;
 
-      messageBody = ethers.AbiCoder.defaultAbiCoder().encode(
-        ["address", "uint8", "uint256"],
-        [borrowerAddr, score, timestamp]
-      );
+      messageBody = encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrowerAddr,
+        score,
+        timestamp,
+        nonce: parsedLog!.args.nonce,
+        rater: owner.address,
+      });
 
       await ratingConsumer.connect(mailboxSigner).handle(
         ETHEREUM_DOMAIN,
@@ -323,7 +347,7 @@ describe("Cross-Chain Rating System Test", function () {
         messageBody
       );
 
-      ltv = await ratingConsumer.getBorrowerLTV(borrowerAddr);
+      ltv = await ratingConsumer["getBorrowerLTV(address)"](borrowerAddr);
       expect(ltv).to.equal(75); // Score 85 -> 75% LTV
 
       console.log("      Updated rating:", score, "-> LTV:", ltv + "%");
@@ -346,7 +370,7 @@ describe("Cross-Chain Rating System Test", function () {
         ARBITRUM_DOMAIN,
         addresses,
         scores,
-        { value: ethers.parseEther("0.03") }
+        { value: ethers.parseEther("0.01") }
       );
 
       const receipt = await tx.wait();
@@ -361,33 +385,32 @@ describe("Cross-Chain Rating System Test", function () {
       });
 
       expect(sentLogs).to.have.length(3);
-      console.log("      All 3 ratings sent");
+      console.log("      All 3 ratings sent in one message");
 
-      // Deliver each message
+      // Deliver the single batch message
       const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
+      const parsedLog = ratingSender.interface.parseLog(sentLogs[0] as any);
+
+      const messageBody = encodeRatingMessage({
+        type: MessageType.Batch,
+        ratings: addresses.map((address, i) => ({ borrower: address, score: scores[i] })),
+        timestamp: parsedLog!.args.timestamp,
+        nonce: parsedLog!.args.nonce,
+        rater: owner.address,
+      });
 
-      for (let i = 0; i < addresses.length; i++) {
-        const parsedLog = ratingSender.interface.parseLog(sentLogs[i] as any);
-        const timestamp = parsedLog!.args.timestamp;
-
-        const messageBody = ethers.AbiCoder.defaultAbiCoder().encode(
-          ["address", "uint8", "uint256"],
-          [addresses[i], scores[i], timestamp]
-        );
-
-        await ratingConsumer.connect(mailboxSigner).handle(
-          ETHEREUM_DOMAIN,
-          senderBytes32,
-          messageBody
-        );
-      }
+      await ratingConsumer.connect(mailboxSigner).handle(
+        ETHEREUM_DOMAIN,
+        senderBytes32,
+        messageBody
+      );
 
       console.log("      All 3 ratings delivered");
 
       // Verify LTVs
-      expect(await ratingConsumer.getBorrowerLTV(addresses[0])).to.equal(75); // 80 -> 75%
-      expect(await ratingConsumer.getBorrowerLTV(addresses[1])).to.equal(60); // 60 -> 60%
-      expect(await ratingConsumer.getBorrowerLTV(addresses[2])).to.equal(40); // 35 -> 40%
+      expect(await ratingConsumer["getBorrowerLTV(address)"](addresses[0])).to.equal(75); // 80 -> 75%
+      expect(await ratingConsumer["getBorrowerLTV(address)"](addresses[1])).to.equal(60); // 60 -> 60%
+      expect(await ratingConsumer["getBorrowerLTV(address)"](addresses[2])).to.equal(40); // 35 -> 40%
 
       console.log("      All LTVs verified");
     });
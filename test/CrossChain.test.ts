@@ -0,0 +1,1656 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  ARBITRUM_DOMAIN,
+  DISPATCH_FEE,
+  ETHEREUM_DOMAIN,
+  OPTIMISM_DOMAIN,
+  applyConsumerChange,
+  deliverRating,
+  deployLocalRatingSystem,
+  deployMultiDestinationRatingSystem,
+  impersonateMailbox,
+} from "./helpers/fixtures";
+import {
+  MessageType,
+  RATING_MESSAGE_VERSION,
+  RevocationMessage,
+  decodeRatingMessage,
+  encodeRatingMessage,
+} from "../tasks/ratingMessage";
+import {
+  SignedRatingAttestation,
+  getRatingSenderDomain,
+  randomAttestationNonce,
+  recoverRatingAttestationSigner,
+  signRatingAttestation,
+} from "../tasks/ratingAttestation";
+import { buildRatingCommitment, getTierFloor, verifyRatingCommitment } from "../tasks/ratingCommitment";
+
+describe("Cross-Chain Rating System (local mailbox)", function () {
+  describe("Full Cross-Chain Flow", function () {
+    it("Should dispatch, relay and store a rating", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, senderBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+      const score = 85;
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN,
+        borrower.address,
+        score,
+        { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+
+      const [message] = await relayer.getDispatchedMessages(receipt);
+      expect(message.origin).to.equal(ETHEREUM_DOMAIN);
+      expect(message.destination).to.equal(ARBITRUM_DOMAIN);
+      expect(message.sender).to.equal(senderBytes32.toLowerCase());
+
+      const [processReceipt] = await relayer.relay(receipt);
+      const block = await ethers.provider.getBlock(processReceipt.blockNumber);
+      const sentBlock = await ethers.provider.getBlock(receipt!.blockNumber);
+
+      await expect(processReceipt.hash)
+        .to.emit(ratingConsumer, "RatingUpdated")
+        .withArgs(borrower.address, score, sentBlock!.timestamp, block!.timestamp, rater.address);
+
+      const rating = await ratingConsumer.getBorrowerRating(borrower.address);
+      expect(rating.score).to.equal(score);
+      expect(rating.isValid).to.be.true;
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+    });
+
+    it("Should update borrower rating over time", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } =
+        await loadFixture(deployLocalRatingSystem);
+
+      let tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 50, { value: DISPATCH_FEE }
+      );
+      await relayer.relay(await tx.wait());
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+
+      await time.increase(3600);
+
+      tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 85, { value: DISPATCH_FEE }
+      );
+      await relayer.relay(await tx.wait());
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+    });
+
+    it("Should deliver every pending message", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, owner, borrower } =
+        await loadFixture(deployLocalRatingSystem);
+
+      await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 90, { value: DISPATCH_FEE }
+      );
+      await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, owner.address, 30, { value: DISPATCH_FEE }
+      );
+
+      const receipts = await relayer.relayPending();
+      expect(receipts).to.have.length(2);
+      expect(await relayer.relayPending()).to.have.length(0);
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](owner.address)).to.equal(40);
+    });
+  });
+
+  describe("Fees", function () {
+    it("Should quote the mailbox fee", async function () {
+      const { ratingSender, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      expect(await ratingSender.quoteGasPayment(ARBITRUM_DOMAIN, borrower.address, 70))
+        .to.equal(DISPATCH_FEE);
+    });
+
+    it("Should revert when the fee is not paid", async function () {
+      const { ratingSender, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(
+        ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 70, { value: DISPATCH_FEE - 1n })
+      )
+        .to.be.revertedWithCustomError(ratingSender, "InsufficientFee")
+        .withArgs(DISPATCH_FEE, DISPATCH_FEE - 1n);
+    });
+
+    it("Should keep the fee on the origin mailbox", async function () {
+      const { ratingSender, originMailbox, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(
+        ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 70, { value: DISPATCH_FEE })
+      ).to.changeEtherBalance(originMailbox, DISPATCH_FEE);
+    });
+
+    it("Should refund overpayment to the caller", async function () {
+      const { ratingSender, originMailbox, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+      const payment = ethers.parseEther("0.01");
+
+      const tx = ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN, [borrower.address, rater.address], [70, 30], { value: payment }
+      );
+      await expect(tx).to.changeEtherBalances(
+        [rater, originMailbox, ratingSender],
+        [-DISPATCH_FEE, DISPATCH_FEE, 0]
+      );
+      await expect(tx)
+        .to.emit(ratingSender, "ExcessRefunded")
+        .withArgs(rater.address, payment - DISPATCH_FEE);
+
+      expect(await ratingSender.totalFeesPaid()).to.equal(DISPATCH_FEE);
+    });
+
+    it("Should let the owner withdraw stranded balance", async function () {
+      const { ratingSender, owner, other } = await loadFixture(deployLocalRatingSystem);
+      const stranded = ethers.parseEther("0.5");
+
+      await other.sendTransaction({ to: await ratingSender.getAddress(), value: stranded });
+      expect(await ratingSender.strandedBalance()).to.equal(stranded);
+
+      await expect(ratingSender.connect(other).withdraw(other.address, stranded))
+        .to.be.revertedWithCustomError(ratingSender, "AccessControlUnauthorizedAccount");
+      await expect(ratingSender.withdraw(owner.address, stranded + 1n))
+        .to.be.revertedWithCustomError(ratingSender, "InsufficientBalance")
+        .withArgs(stranded, stranded + 1n);
+
+      const tx = ratingSender.withdraw(owner.address, stranded);
+      await expect(tx).to.emit(ratingSender, "Withdrawn").withArgs(owner.address, stranded);
+      await expect(tx).to.changeEtherBalances([ratingSender, owner], [-stranded, stranded]);
+      expect(await ratingSender.strandedBalance()).to.equal(0);
+    });
+  });
+
+  describe("Security", function () {
+    it("Should not deliver when the ISM rejects the message", async function () {
+      const { ratingSender, ratingConsumer, destinationMailbox, defaultIsm, relayer, rater, borrower } =
+        await loadFixture(deployLocalRatingSystem);
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 85, { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+
+      await defaultIsm.setAccept(false);
+      await expect(relayer.relay(receipt))
+        .to.be.revertedWithCustomError(destinationMailbox, "IsmVerificationFailed");
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+
+      await defaultIsm.setAccept(true);
+      await relayer.relayPending();
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+    });
+
+    it("Should not deliver the same message twice", async function () {
+      const { ratingSender, destinationMailbox, relayer, rater, borrower } =
+        await loadFixture(deployLocalRatingSystem);
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 85, { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+      const [message] = await relayer.getDispatchedMessages(receipt);
+
+      await relayer.deliver(message);
+      expect(await destinationMailbox.delivered(message.id)).to.be.true;
+
+      await expect(relayer.deliver(message))
+        .to.be.revertedWithCustomError(destinationMailbox, "AlreadyDelivered");
+    });
+
+    it("Should reject messages dispatched by an unknown sender", async function () {
+      const { originMailbox, ratingConsumer, relayer, other, borrower, consumerBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+
+      const body = encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrower.address,
+        score: 100,
+        timestamp: BigInt(await time.latest()),
+        nonce: 1n,
+        rater: other.address,
+      });
+      const tx = await originMailbox.connect(other)["dispatch(uint32,bytes32,bytes)"](
+        ARBITRUM_DOMAIN, consumerBytes32, body, { value: DISPATCH_FEE }
+      );
+
+      await expect(relayer.relay(await tx.wait()))
+        .to.be.revertedWithCustomError(ratingConsumer, "UnauthorizedSender");
+    });
+  });
+
+  describe("Sender Rotation", function () {
+    const ratingBody = async (borrower: string, nonce: bigint) => encodeRatingMessage({
+      type: MessageType.Rating,
+      borrower,
+      score: 70,
+      timestamp: BigInt(await time.latest()),
+      nonce,
+      rater: ethers.ZeroAddress,
+    });
+
+    it("Should accept messages from every registered sender during a rotation", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, destinationMailbox, borrower, other, senderBytes32 } = system;
+      const newSender = ethers.zeroPadValue(other.address, 32);
+
+      await expect(applyConsumerChange(
+        ratingConsumer, ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, newSender, 0)
+      ))
+        .to.emit(ratingConsumer, "AuthorizedSenderAdded")
+        .withArgs(ETHEREUM_DOMAIN, newSender, 0);
+
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      await ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, newSender, await ratingBody(borrower.address, 1n));
+      await deliverRating(system, other.address, 60);
+
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(70);
+      expect((await ratingConsumer.getBorrowerRating(other.address)).score).to.equal(60);
+
+      const [senders, expiries] = await ratingConsumer.getAuthorizedSenders(ETHEREUM_DOMAIN);
+      expect(senders).to.deep.equal([senderBytes32.toLowerCase(), newSender.toLowerCase()]);
+      expect(expiries).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should only order same-second ratings by nonce within one sender", async function () {
+      const { ratingConsumer, destinationMailbox, borrower, other, senderBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+      const newSender = ethers.zeroPadValue(other.address, 32);
+      await applyConsumerChange(
+        ratingConsumer, ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, newSender, 0)
+      );
+
+      const timestamp = BigInt(await time.latest());
+      const body = (score: number, nonce: bigint) => encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrower.address,
+        score,
+        timestamp,
+        nonce,
+        rater: ethers.ZeroAddress,
+      });
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      await ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, body(60, 5n));
+
+      // A lower nonce from another sender is not older
+      await expect(ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, newSender, body(90, 2n)))
+        .to.emit(ratingConsumer, "RatingUpdated");
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(90);
+      expect(await ratingConsumer.ratingSources(borrower.address)).to.equal(
+        ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "bytes32"], [ETHEREUM_DOMAIN, newSender]))
+      );
+
+      await expect(ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, newSender, body(70, 1n)))
+        .to.emit(ratingConsumer, "OutOfOrderRatingIgnored")
+        .withArgs(borrower.address, 70, timestamp, 1, timestamp);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(90);
+    });
+
+    it("Should reject a sender once it expires", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, destinationMailbox, borrower, senderBytes32 } = system;
+      const expiresAt = BigInt(await time.latest()) + 3600n;
+
+      // Re-adding the current sender schedules its retirement
+      await applyConsumerChange(
+        ratingConsumer, ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32, expiresAt)
+      );
+      await deliverRating(system, borrower.address, 80);
+
+      await time.increaseTo(expiresAt);
+      expect(await ratingConsumer.isAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32)).to.equal(false);
+
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      await expect(
+        ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, await ratingBody(borrower.address, 5n))
+      ).to.be.revertedWithCustomError(ratingConsumer, "UnauthorizedSender");
+
+      const [senders, expiries] = await ratingConsumer.getAuthorizedSenders(ETHEREUM_DOMAIN);
+      expect(senders).to.deep.equal([senderBytes32.toLowerCase()]);
+      expect(expiries).to.deep.equal([expiresAt]);
+    });
+
+    it("Should stop accepting a removed sender", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, ratingSender, rater, borrower, relayer, senderBytes32 } = system;
+
+      await expect(applyConsumerChange(
+        ratingConsumer, ratingConsumer.proposeRemoveAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32)
+      ))
+        .to.emit(ratingConsumer, "AuthorizedSenderRemoved")
+        .withArgs(ETHEREUM_DOMAIN, senderBytes32);
+
+      const [senders] = await ratingConsumer.getAuthorizedSenders(ETHEREUM_DOMAIN);
+      expect(senders).to.deep.equal([]);
+      expect(await ratingConsumer.senderExpiries(ETHEREUM_DOMAIN, senderBytes32)).to.equal(0);
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 80, { value: DISPATCH_FEE }
+      );
+      await expect(relayer.relay(await tx.wait()))
+        .to.be.revertedWithCustomError(ratingConsumer, "UnauthorizedSender");
+
+      await expect(applyConsumerChange(
+        ratingConsumer, ratingConsumer.proposeRemoveAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32)
+      ))
+        .to.be.revertedWithCustomError(ratingConsumer, "SenderNotFound")
+        .withArgs(ETHEREUM_DOMAIN, senderBytes32);
+    });
+
+    it("Should reject invalid sender proposals", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+      const now = BigInt(await time.latest());
+
+      await expect(ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, ethers.ZeroHash, 0))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAddress");
+      await expect(
+        ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, ethers.zeroPadValue(other.address, 32), now)
+      )
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidSenderExpiry")
+        .withArgs(now);
+    });
+  });
+
+  describe("Nonces", function () {
+    it("Should assign increasing nonces per destination", async function () {
+      const { ratingSender, relayer, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      const nonces: bigint[] = [];
+      for (const score of [70, 70]) {
+        const tx = await ratingSender.connect(rater).sendRating(
+          ARBITRUM_DOMAIN, borrower.address, score, { value: DISPATCH_FEE }
+        );
+        const [message] = await relayer.getDispatchedMessages(await tx.wait());
+        nonces.push(decodeRatingMessage(message.body).nonce);
+      }
+
+      expect(nonces).to.deep.equal([1n, 2n]);
+      expect(await ratingSender.outboundNonces(ARBITRUM_DOMAIN)).to.equal(2);
+    });
+
+    it("Should accept identical ratings sent in the same block", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, senderBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+
+      await network.provider.send("evm_setAutomine", [false]);
+      const first = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 70, { value: DISPATCH_FEE, gasLimit: 500000 }
+      );
+      const second = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 70, { value: DISPATCH_FEE, gasLimit: 500000 }
+      );
+      await network.provider.send("evm_mine");
+      await network.provider.send("evm_setAutomine", [true]);
+
+      const firstReceipt = await first.wait();
+      const secondReceipt = await second.wait();
+      expect(firstReceipt!.blockNumber).to.equal(secondReceipt!.blockNumber);
+
+      await relayer.relay(firstReceipt);
+      await relayer.relay(secondReceipt);
+      expect(await ratingConsumer.lastNonces(ETHEREUM_DOMAIN, senderBytes32)).to.equal(2);
+    });
+
+    it("Should ignore a rating older than the stored one", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      const firstTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 60, { value: DISPATCH_FEE }
+      );
+      const secondTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 90, { value: DISPATCH_FEE }
+      );
+      const [first] = await relayer.getDispatchedMessages(await firstTx.wait());
+      const [second] = await relayer.getDispatchedMessages(await secondTx.wait());
+      const storedTimestamp = decodeRatingMessage(second.body).timestamp;
+
+      await relayer.deliver(second);
+      await expect(relayer.deliver(first))
+        .to.emit(ratingConsumer, "OutOfOrderRatingIgnored")
+        .withArgs(borrower.address, 60, decodeRatingMessage(first.body).timestamp, 1, storedTimestamp);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+      expect(await ratingConsumer.ratingNonces(borrower.address)).to.equal(2);
+    });
+
+    it("Should still apply other borrowers from a late batch", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, other } =
+        await loadFixture(deployLocalRatingSystem);
+
+      const firstTx = await ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN, [borrower.address, other.address], [60, 60], { value: DISPATCH_FEE }
+      );
+      const secondTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 90, { value: DISPATCH_FEE }
+      );
+      const [first] = await relayer.getDispatchedMessages(await firstTx.wait());
+      const [second] = await relayer.getDispatchedMessages(await secondTx.wait());
+
+      await relayer.deliver(second);
+      await relayer.deliver(first);
+
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(90);
+      expect((await ratingConsumer.getBorrowerRating(other.address)).score).to.equal(60);
+    });
+
+    it("Should revert older ratings when configured to", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, other } =
+        await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.connect(other).setOutOfOrderPolicy(1))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+      await expect(ratingConsumer.setOutOfOrderPolicy(1))
+        .to.emit(ratingConsumer, "OutOfOrderPolicyUpdated")
+        .withArgs(1);
+
+      const firstTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 60, { value: DISPATCH_FEE }
+      );
+      const secondTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 90, { value: DISPATCH_FEE }
+      );
+      const [first] = await relayer.getDispatchedMessages(await firstTx.wait());
+      const [second] = await relayer.getDispatchedMessages(await secondTx.wait());
+
+      await relayer.deliver(second);
+      await expect(relayer.deliver(first))
+        .to.be.revertedWithCustomError(ratingConsumer, "OutOfOrderRating")
+        .withArgs(borrower.address, decodeRatingMessage(second.body).timestamp, decodeRatingMessage(first.body).timestamp);
+    });
+
+    it("Should reject a duplicate nonce", async function () {
+      const { ratingSender, ratingConsumer, destinationMailbox, relayer, rater, borrower, senderBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 85, { value: DISPATCH_FEE }
+      );
+      const [message] = await relayer.getDispatchedMessages(await tx.wait());
+      await relayer.deliver(message);
+
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      await expect(
+        ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, message.body)
+      ).to.be.revertedWithCustomError(ratingConsumer, "ReplayAttack");
+    });
+  });
+
+  describe("Message Codec", function () {
+    it("Should round-trip a dispatched rating message", async function () {
+      const { ratingSender, relayer, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 42, { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+      const [message] = await relayer.getDispatchedMessages(receipt);
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+
+      const decoded = decodeRatingMessage(message.body);
+      expect(decoded).to.deep.equal({
+        version: RATING_MESSAGE_VERSION,
+        type: MessageType.Rating,
+        nonce: 1n,
+        rater: rater.address,
+        borrower: borrower.address,
+        score: 42,
+        timestamp: BigInt(block!.timestamp),
+        expiresAt: 0n,
+      });
+      expect(encodeRatingMessage(decoded)).to.equal(message.body);
+    });
+
+    it("Should reject unknown versions and message types", async function () {
+      const { ratingConsumer, destinationMailbox, borrower, senderBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      const message = {
+        type: MessageType.Rating as const,
+        nonce: 1n,
+        rater: ethers.ZeroAddress,
+        borrower: borrower.address,
+        score: 80,
+        timestamp: BigInt(await time.latest()),
+      };
+
+      await expect(
+        ratingConsumer.connect(mailboxSigner).handle(
+          ETHEREUM_DOMAIN, senderBytes32, encodeRatingMessage({ ...message, version: 4 })
+        )
+      )
+        .to.be.revertedWithCustomError(ratingConsumer, "UnsupportedMessageVersion")
+        .withArgs(4);
+
+      const unknownType = ethers.concat([
+        "0x03ff",
+        ethers.dataSlice(encodeRatingMessage(message), 2),
+      ]);
+      await expect(
+        ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, unknownType)
+      )
+        .to.be.revertedWithCustomError(ratingConsumer, "UnsupportedMessageType")
+        .withArgs(0xff);
+
+      await expect(
+        ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, "0x01")
+      ).to.be.revertedWithCustomError(ratingConsumer, "MalformedMessage");
+    });
+
+    it("Should reject headerless 1.0.0 messages", async function () {
+      const { ratingConsumer, destinationMailbox, borrower, senderBytes32 } =
+        await loadFixture(deployLocalRatingSystem);
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      const body = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "uint8", "uint256"],
+        [borrower.address, 80, await time.latest()]
+      );
+
+      await expect(ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, body))
+        .to.be.revertedWithCustomError(ratingConsumer, "UnsupportedMessageVersion")
+        .withArgs(0);
+      expect(() => decodeRatingMessage(body)).to.throw("Unsupported rating message version: 0");
+    });
+
+    it("Should refuse to decode unknown versions off-chain", async function () {
+      const body = encodeRatingMessage({
+        version: 9,
+        type: MessageType.Rating,
+        nonce: 1n,
+        rater: ethers.ZeroAddress,
+        borrower: ethers.ZeroAddress,
+        score: 0,
+        timestamp: 0n,
+      });
+
+      expect(() => decodeRatingMessage(body)).to.throw("Unsupported rating message version: 9");
+    });
+  });
+
+  describe("Custom ISM", function () {
+    it("Should resolve the consumer ISM on the mailbox", async function () {
+      const { ratingConsumer, destinationMailbox, defaultIsm } = await loadFixture(deployLocalRatingSystem);
+      const consumerAddress = await ratingConsumer.getAddress();
+
+      expect(await destinationMailbox.recipientIsm(consumerAddress)).to.equal(await defaultIsm.getAddress());
+
+      const customIsm = await ethers.deployContract("MockInterchainSecurityModule");
+      const customIsmAddress = await customIsm.getAddress();
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeInterchainSecurityModule(customIsmAddress)))
+        .to.emit(ratingConsumer, "InterchainSecurityModuleUpdated")
+        .withArgs(ethers.ZeroAddress, customIsmAddress);
+      expect(await destinationMailbox.recipientIsm(consumerAddress)).to.equal(customIsmAddress);
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeInterchainSecurityModule(ethers.ZeroAddress));
+      expect(await destinationMailbox.recipientIsm(consumerAddress)).to.equal(await defaultIsm.getAddress());
+    });
+
+    it("Should verify messages with the consumer ISM instead of the default", async function () {
+      const { ratingSender, ratingConsumer, destinationMailbox, defaultIsm, relayer, rater, borrower } =
+        await loadFixture(deployLocalRatingSystem);
+
+      const customIsm = await ethers.deployContract("MockInterchainSecurityModule");
+      await applyConsumerChange(
+        ratingConsumer,
+        ratingConsumer.proposeInterchainSecurityModule(await customIsm.getAddress())
+      );
+      await customIsm.setAccept(false);
+
+      const tx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 85, { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+
+      await expect(relayer.relay(receipt))
+        .to.be.revertedWithCustomError(destinationMailbox, "IsmVerificationFailed");
+
+      await customIsm.setAccept(true);
+      await relayer.relay(receipt);
+
+      expect(await customIsm.verifyCount()).to.equal(1);
+      expect(await defaultIsm.verifyCount()).to.equal(0);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+    });
+
+    it("Should only allow the owner to propose the ISM", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.connect(other).proposeInterchainSecurityModule(other.address))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Multi-Destination Fan-out", function () {
+    it("Should enumerate the configured destinations", async function () {
+      const { ratingSender } = await loadFixture(deployMultiDestinationRatingSystem);
+
+      expect(await ratingSender.getDestinationDomains()).to.deep.equal([BigInt(ARBITRUM_DOMAIN), BigInt(OPTIMISM_DOMAIN)]);
+
+      await ratingSender.setDestinationRecipient(ARBITRUM_DOMAIN, ethers.ZeroHash);
+      expect(await ratingSender.getDestinationDomains()).to.deep.equal([BigInt(OPTIMISM_DOMAIN)]);
+    });
+
+    it("Should send a rating to every destination in one call", async function () {
+      const { ratingSender, ratingConsumer, optimismConsumer, relayer, rater, borrower } =
+        await loadFixture(deployMultiDestinationRatingSystem);
+
+      const totalFee = await ratingSender.quoteGasPaymentAll(borrower.address, 85);
+      expect(totalFee).to.equal(DISPATCH_FEE * 2n);
+
+      const tx = await ratingSender.connect(rater).sendRatingToAll(borrower.address, 85, { value: totalFee });
+      await expect(tx)
+        .to.emit(ratingSender, "RatingSent")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address, 85, anyValue, 1, anyValue);
+      await expect(tx)
+        .to.emit(ratingSender, "RatingSent")
+        .withArgs(OPTIMISM_DOMAIN, borrower.address, 85, anyValue, 1, anyValue);
+
+      const receipt = await tx.wait();
+      const messages = await relayer.getDispatchedMessages(receipt);
+      expect(messages.map((message) => message.destination)).to.deep.equal([ARBITRUM_DOMAIN, OPTIMISM_DOMAIN]);
+
+      await relayer.relay(receipt);
+      for (const consumer of [ratingConsumer, optimismConsumer]) {
+        expect((await consumer.getBorrowerRating(borrower.address)).score).to.equal(85);
+      }
+      expect(await ratingSender.outboundNonces(OPTIMISM_DOMAIN)).to.equal(1);
+      expect(await ratingSender.totalRatingsSent()).to.equal(2);
+      expect(await ratingSender.totalFeesPaid()).to.equal(totalFee);
+    });
+
+    it("Should not dispatch anything when the combined fee is not covered", async function () {
+      const { ratingSender, originMailbox, rater, borrower } = await loadFixture(deployMultiDestinationRatingSystem);
+
+      await expect(
+        ratingSender.connect(rater).sendRatingToAll(borrower.address, 85, { value: DISPATCH_FEE })
+      )
+        .to.be.revertedWithCustomError(ratingSender, "InsufficientFee")
+        .withArgs(DISPATCH_FEE * 2n, DISPATCH_FEE);
+
+      expect(await ratingSender.outboundNonces(ARBITRUM_DOMAIN)).to.equal(0);
+      expect(await ethers.provider.getBalance(await originMailbox.getAddress())).to.equal(0);
+    });
+
+    it("Should fan out a batch and refund overpayment", async function () {
+      const { ratingSender, ratingConsumer, optimismConsumer, relayer, rater, borrower, other } =
+        await loadFixture(deployMultiDestinationRatingSystem);
+      const borrowers = [borrower.address, other.address];
+      const totalFee = await ratingSender.quoteGasPaymentBatchAll(borrowers, [70, 40]);
+
+      const tx = ratingSender.connect(rater).sendRatingBatchToAll(borrowers, [70, 40], { value: totalFee + 1n });
+      await expect(tx).to.changeEtherBalance(rater, -totalFee);
+      await expect(tx).to.emit(ratingSender, "ExcessRefunded").withArgs(rater.address, 1n);
+
+      const messages = await relayer.relay(await (await tx).wait());
+      expect(messages).to.have.length(2);
+      for (const consumer of [ratingConsumer, optimismConsumer]) {
+        expect((await consumer.getBorrowerRating(other.address)).score).to.equal(40);
+      }
+      expect(await ratingSender.totalRatingsSent()).to.equal(4);
+    });
+
+    it("Should revert when no destination is configured", async function () {
+      const { ratingSender, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+      await ratingSender.setDestinationRecipient(ARBITRUM_DOMAIN, ethers.ZeroHash);
+
+      await expect(ratingSender.quoteGasPaymentAll(borrower.address, 50))
+        .to.be.revertedWithCustomError(ratingSender, "NoDestinations");
+      await expect(ratingSender.connect(rater).sendRatingToAll(borrower.address, 50, { value: DISPATCH_FEE }))
+        .to.be.revertedWithCustomError(ratingSender, "NoDestinations");
+    });
+  });
+
+  describe("Signed Ratings", function () {
+    const signAttestation = async (system: any, signer: any, overrides: Record<string, any> = {}) => {
+      const now = BigInt(await time.latest());
+      const attestation = {
+        borrower: system.borrower.address,
+        score: 85,
+        issuedAt: now,
+        nonce: randomAttestationNonce(),
+        deadline: now + 3600n,
+        ...overrides,
+      };
+      return signRatingAttestation(signer, await getRatingSenderDomain(system.ratingSender), attestation);
+    };
+
+    const submit = (system: any, signed: SignedRatingAttestation, payer = system.other) => {
+      return system.ratingSender.connect(payer).sendSignedRating(
+        signed.borrower,
+        signed.score,
+        signed.issuedAt,
+        signed.nonce,
+        signed.deadline,
+        signed.signature,
+        { value: DISPATCH_FEE }
+      );
+    };
+
+    it("Should let any payer relay a rating signed by an authorized rater", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, other } = system;
+      const signed = await signAttestation(system, rater, { issuedAt: BigInt(await time.latest()) - 60n });
+      expect(recoverRatingAttestationSigner(await getRatingSenderDomain(ratingSender), signed, signed.signature))
+        .to.equal(rater.address);
+
+      const tx = await submit(system, signed);
+      await expect(tx)
+        .to.emit(ratingSender, "SignedRatingSubmitted")
+        .withArgs(rater.address, signed.nonce, other.address);
+      await expect(tx)
+        .to.emit(ratingSender, "RatingSent")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address, 85, signed.issuedAt, 1, anyValue);
+      const [processReceipt] = await relayer.relay(await tx.wait());
+      await expect(processReceipt.hash)
+        .to.emit(ratingConsumer, "RatingUpdated")
+        .withArgs(borrower.address, 85, signed.issuedAt, anyValue, rater.address);
+
+      const rating = await ratingConsumer.getBorrowerRating(borrower.address);
+      expect(rating.score).to.equal(85);
+      expect(rating.timestamp).to.equal(signed.issuedAt);
+      expect(await ratingSender.usedAttestationNonces(rater.address, signed.nonce)).to.be.true;
+    });
+
+    it("Should reject a reused nonce", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const signed = await signAttestation(system, system.rater);
+      await submit(system, signed);
+
+      await expect(submit(system, signed))
+        .to.be.revertedWithCustomError(system.ratingSender, "AttestationNonceUsed")
+        .withArgs(system.rater.address, signed.nonce);
+    });
+
+    it("Should reject expired or future-dated attestations", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const now = BigInt(await time.latest());
+
+      const expired = await signAttestation(system, system.rater, { deadline: now });
+      await expect(submit(system, expired))
+        .to.be.revertedWithCustomError(system.ratingSender, "SignatureExpired")
+        .withArgs(now);
+
+      const future = await signAttestation(system, system.rater, { issuedAt: now + 600n });
+      await expect(submit(system, future))
+        .to.be.revertedWithCustomError(system.ratingSender, "InvalidIssuedAt")
+        .withArgs(now + 600n);
+    });
+
+    it("Should reject signatures from unauthorized keys or over altered fields", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+
+      const unauthorized = await signAttestation(system, system.other);
+      await expect(submit(system, unauthorized))
+        .to.be.revertedWithCustomError(system.ratingSender, "InvalidSignature");
+
+      const signed = await signAttestation(system, system.rater);
+      await expect(submit(system, { ...signed, score: 100 }))
+        .to.be.revertedWithCustomError(system.ratingSender, "InvalidSignature");
+      await expect(submit(system, { ...signed, signature: "0x1234" }))
+        .to.be.revertedWithCustomError(system.ratingSender, "InvalidSignature");
+    });
+
+    it("Should not accept signed ratings while paused", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const signed = await signAttestation(system, system.rater);
+      await system.ratingSender.pause();
+
+      await expect(submit(system, signed))
+        .to.be.revertedWithCustomError(system.ratingSender, "EnforcedPause");
+    });
+  });
+
+  describe("Rating Limits", function () {
+    const send = (system: any, borrower: string, score: number, from = system.rater) => {
+      return system.ratingSender.connect(from).sendRating(ARBITRUM_DOMAIN, borrower, score, { value: DISPATCH_FEE });
+    };
+
+    it("Should cap the ratings each rater sends per window", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, rater, owner, borrower, other } = system;
+      await expect(ratingSender.setRatingLimits(3600, 2, 0))
+        .to.emit(ratingSender, "RatingLimitsUpdated")
+        .withArgs(3600, 2, 0);
+
+      await ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN,
+        [borrower.address, other.address],
+        [70, 40],
+        { value: DISPATCH_FEE }
+      );
+      const [windowStart] = await ratingSender.raterWindows(rater.address);
+
+      await expect(send(system, borrower.address, 72))
+        .to.be.revertedWithCustomError(ratingSender, "RateLimitExceeded")
+        .withArgs(rater.address, 2, windowStart + 3600n);
+
+      // Other raters have their own window
+      await send(system, borrower.address, 72, owner);
+
+      await time.increase(3600);
+      await send(system, borrower.address, 74);
+      expect((await ratingSender.raterWindows(rater.address)).count).to.equal(1);
+    });
+
+    it("Should count signed ratings against the signer", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, rater, other, borrower } = system;
+      await ratingSender.setRatingLimits(3600, 1, 0);
+      await send(system, borrower.address, 70);
+
+      const now = BigInt(await time.latest());
+      const signed = await signRatingAttestation(rater, await getRatingSenderDomain(ratingSender), {
+        borrower: borrower.address,
+        score: 71,
+        issuedAt: now,
+        nonce: randomAttestationNonce(),
+        deadline: now + 3600n,
+      });
+      await expect(
+        ratingSender.connect(other).sendSignedRating(
+          signed.borrower,
+          signed.score,
+          signed.issuedAt,
+          signed.nonce,
+          signed.deadline,
+          signed.signature,
+          { value: DISPATCH_FEE }
+        )
+      ).to.be.revertedWithCustomError(ratingSender, "RateLimitExceeded");
+    });
+
+    it("Should reject score changes larger than the max delta", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, borrower, other } = system;
+      await send(system, borrower.address, 50);
+      await ratingSender.setRatingLimits(0, 0, 20);
+
+      await expect(send(system, borrower.address, 75))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded")
+        .withArgs(borrower.address, 50, 75, 20);
+      await expect(ratingSender.connect(system.rater).sendRatingToAll(borrower.address, 29, { value: DISPATCH_FEE }))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded")
+        .withArgs(borrower.address, 50, 29, 20);
+
+      await send(system, borrower.address, 70);
+      await send(system, borrower.address, 50);
+      // A borrower's first rating is not limited
+      await send(system, other.address, 100);
+      expect((await ratingSender.lastScores(borrower.address)).score).to.equal(50);
+    });
+
+    it("Should allow a jump approved by a second party", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, owner, rater, borrower } = system;
+      await send(system, borrower.address, 90);
+      await ratingSender.setRatingLimits(0, 0, 20);
+
+      const approveTx = await ratingSender.approveScoreJump(borrower.address, 10);
+      await expect(approveTx)
+        .to.emit(ratingSender, "ScoreJumpApproved")
+        .withArgs(borrower.address, 10, owner.address, BigInt(await time.latest()) + 86400n);
+
+      // The approval covers only the approved score
+      await expect(send(system, borrower.address, 20))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded");
+
+      await expect(send(system, borrower.address, 10))
+        .to.emit(ratingSender, "ScoreJumpApplied")
+        .withArgs(borrower.address, 90, 10, rater.address, owner.address);
+      expect((await ratingSender.scoreJumpApprovals(borrower.address)).approver).to.equal(ethers.ZeroAddress);
+
+      // Approvals are single use
+      await expect(send(system, borrower.address, 90))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded");
+    });
+
+    it("Should not let a rater use their own approval or an expired one", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, owner, borrower } = system;
+      await send(system, borrower.address, 90);
+      await ratingSender.setRatingLimits(0, 0, 20);
+
+      await ratingSender.approveScoreJump(borrower.address, 10);
+      await expect(send(system, borrower.address, 10, owner))
+        .to.be.revertedWithCustomError(ratingSender, "ApproverIsRater")
+        .withArgs(owner.address);
+
+      await time.increase(86401);
+      await expect(send(system, borrower.address, 10))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded");
+    });
+
+    it("Should restrict and validate the limit configuration", async function () {
+      const { ratingSender, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingSender.connect(rater).setRatingLimits(3600, 10, 20))
+        .to.be.revertedWithCustomError(ratingSender, "AccessControlUnauthorizedAccount")
+        .withArgs(rater.address, await ratingSender.RISK_PARAMETER_MANAGER_ROLE());
+      await expect(ratingSender.connect(rater).approveScoreJump(borrower.address, 10))
+        .to.be.revertedWithCustomError(ratingSender, "AccessControlUnauthorizedAccount")
+        .withArgs(rater.address, await ratingSender.RATING_APPROVER_ROLE());
+
+      for (const [window, maxRatings, maxDelta] of [[3600, 0, 0], [0, 10, 0], [3600, 10, 101]]) {
+        await expect(ratingSender.setRatingLimits(window, maxRatings, maxDelta))
+          .to.be.revertedWithCustomError(ratingSender, "InvalidRatingLimits");
+      }
+    });
+  });
+
+  describe("Revocation", function () {
+    const revoke = (system: any, reason = "fraud") => {
+      return system.ratingSender.connect(system.rater).revokeRating(
+        ARBITRUM_DOMAIN, system.borrower.address, reason, { value: DISPATCH_FEE }
+      );
+    };
+
+    it("Should fall back to the default LTV as soon as a revocation lands", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+      await deliverRating(system, borrower.address, 90);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+
+      const tx = await revoke(system);
+      await expect(tx)
+        .to.emit(ratingSender, "RatingRevocationSent")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address, "fraud", 2, anyValue);
+      const receipt = await tx.wait();
+      const [message] = await relayer.getDispatchedMessages(receipt);
+      const decoded = decodeRatingMessage(message.body);
+      expect(decoded.type).to.equal(MessageType.Revocation);
+
+      const [processReceipt] = await relayer.relay(receipt);
+      await expect(processReceipt.hash)
+        .to.emit(ratingConsumer, "RatingRevoked")
+        .withArgs(borrower.address, (decoded as RevocationMessage).timestamp, rater.address, "fraud");
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).isValid).to.be.false;
+      expect((await ratingConsumer.getBorrowerRiskParams(borrower.address)).isValid).to.be.false;
+
+      // History still returns the rating, flagged as revoked
+      const revoked = await ratingConsumer.getRatingAt(borrower.address, await time.latest());
+      expect(revoked.score).to.equal(90);
+      expect(revoked.revoked).to.be.true;
+
+      // A newer rating is accepted again
+      await time.increase(1);
+      await deliverRating(system, borrower.address, 60);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+    });
+
+    it("Should ignore ratings issued before the revocation that arrive after it", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+      const ratingTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 90, { value: DISPATCH_FEE }
+      );
+      const revocationTx = await revoke(system);
+
+      await relayer.relay(await revocationTx.wait());
+      const [processReceipt] = await relayer.relay(await ratingTx.wait());
+      await expect(processReceipt.hash).to.emit(ratingConsumer, "OutOfOrderRatingIgnored");
+      await expect(processReceipt.hash).not.to.emit(ratingConsumer, "RatingUpdated");
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+    });
+
+    it("Should order ratings from the revocation's second by nonce", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+      const overrides = { value: DISPATCH_FEE, gasLimit: 500000 };
+
+      await network.provider.send("evm_setAutomine", [false]);
+      const before = await ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 90, overrides);
+      const revocation = await ratingSender.connect(rater).revokeRating(
+        ARBITRUM_DOMAIN, borrower.address, "fraud", overrides
+      );
+      const after = await ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 60, overrides);
+      await network.provider.send("evm_mine");
+      await network.provider.send("evm_setAutomine", [true]);
+
+      await relayer.relay(await revocation.wait());
+      const [beforeReceipt] = await relayer.relay(await before.wait());
+      await expect(beforeReceipt.hash).to.emit(ratingConsumer, "OutOfOrderRatingIgnored");
+
+      const [afterReceipt] = await relayer.relay(await after.wait());
+      await expect(afterReceipt.hash).to.emit(ratingConsumer, "RatingUpdated");
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+      expect((await ratingConsumer.getRatingAt(borrower.address, await time.latest())).revoked).to.be.false;
+    });
+
+    it("Should keep a newer same-second rating that lands before the revocation", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+      const overrides = { value: DISPATCH_FEE, gasLimit: 500000 };
+
+      await deliverRating(system, borrower.address, 90);
+
+      await network.provider.send("evm_setAutomine", [false]);
+      const revocation = await ratingSender.connect(rater).revokeRating(
+        ARBITRUM_DOMAIN, borrower.address, "fraud", overrides
+      );
+      const after = await ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 60, overrides);
+      await network.provider.send("evm_mine");
+      await network.provider.send("evm_setAutomine", [true]);
+
+      await relayer.relay(await after.wait());
+      const [revocationReceipt] = await relayer.relay(await revocation.wait());
+      await expect(revocationReceipt.hash).to.emit(ratingConsumer, "RatingRevoked");
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).isValid).to.be.true;
+      expect((await ratingConsumer.getRatingAt(borrower.address, await time.latest())).revoked).to.be.false;
+    });
+
+    it("Should only let authorized raters revoke, outside the rating limits", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, borrower, other } = system;
+      await ratingSender.setRatingLimits(3600, 1, 0);
+      await deliverRating(system, borrower.address, 90);
+
+      expect(await ratingSender.quoteRevocation(ARBITRUM_DOMAIN, borrower.address, "fraud")).to.equal(DISPATCH_FEE);
+      await expect(
+        ratingSender.connect(other).revokeRating(ARBITRUM_DOMAIN, borrower.address, "fraud", { value: DISPATCH_FEE })
+      ).to.be.revertedWithCustomError(ratingSender, "Unauthorized");
+      await expect(
+        ratingSender.connect(system.rater).revokeRating(OPTIMISM_DOMAIN, borrower.address, "fraud", { value: DISPATCH_FEE })
+      ).to.be.revertedWithCustomError(ratingSender, "InvalidAddress");
+
+      await revoke(system);
+    });
+  });
+
+  describe("Rating Expiry", function () {
+    it("Should stop counting a rating at its own expiry", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+      const expiresAt = BigInt(await time.latest()) + 3600n;
+
+      const tx = await ratingSender.connect(rater).sendRatingWithExpiry(
+        ARBITRUM_DOMAIN, borrower.address, 90, expiresAt, { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+      const [message] = await relayer.getDispatchedMessages(receipt);
+      expect((decodeRatingMessage(message.body) as any).expiresAt).to.equal(expiresAt);
+      await relayer.relay(receipt);
+
+      expect((await ratingConsumer.borrowerRatings(borrower.address)).expiresAt).to.equal(expiresAt);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+
+      // Well within maxRatingAge, but past the rating's own expiry
+      await time.increaseTo(expiresAt);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).isValid).to.be.false;
+    });
+
+    it("Should reject expiries in the past and ratings that expired in flight", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = await loadFixture(deployLocalRatingSystem);
+      const now = BigInt(await time.latest());
+
+      await expect(
+        ratingSender.connect(rater).sendRatingWithExpiry(ARBITRUM_DOMAIN, borrower.address, 90, now, { value: DISPATCH_FEE })
+      )
+        .to.be.revertedWithCustomError(ratingSender, "InvalidExpiry")
+        .withArgs(now);
+
+      const tx = await ratingSender.connect(rater).sendRatingWithExpiry(
+        ARBITRUM_DOMAIN, borrower.address, 90, now + 60n, { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+      await time.increase(120);
+
+      await expect(relayer.relay(receipt)).to.be.revertedWithCustomError(ratingConsumer, "StaleRating");
+    });
+  });
+
+  describe("Private Ratings", function () {
+    const sendPrivate = async (system: any, score: number, overrides: Record<string, any> = {}) => {
+      const tiers = await system.ratingConsumer.getLtvTiers();
+      const opening = buildRatingCommitment(system.borrower.address, score);
+      const floorScore = overrides.floorScore ?? getTierFloor(tiers, score);
+      const tx = await system.ratingSender.connect(system.rater).sendPrivateRating(
+        ARBITRUM_DOMAIN,
+        system.borrower.address,
+        floorScore,
+        overrides.commitment ?? opening.commitment,
+        overrides.expiresAt ?? 0,
+        { value: DISPATCH_FEE }
+      );
+      return { tx, opening, floorScore };
+    };
+
+    it("Should price a private rating at its tier without publishing the score", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+
+      const { tx, opening, floorScore } = await sendPrivate(system, 87);
+      await expect(tx)
+        .to.emit(ratingSender, "PrivateRatingSent")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address, floorScore, opening.commitment, 1, anyValue);
+      await expect(tx).not.to.emit(ratingSender, "RatingSent");
+
+      const receipt = await tx.wait();
+      const [message] = await relayer.getDispatchedMessages(receipt);
+      const decoded = decodeRatingMessage(message.body);
+      expect(decoded).to.include({ type: MessageType.PrivateRating, floorScore: 80, commitment: opening.commitment });
+      expect(encodeRatingMessage(decoded)).to.equal(message.body);
+
+      const [processReceipt] = await relayer.relay(receipt);
+      await expect(processReceipt.hash)
+        .to.emit(ratingConsumer, "RatingUpdated")
+        .withArgs(borrower.address, 80, anyValue, anyValue, rater.address);
+
+      const stored = await ratingConsumer.borrowerRatings(borrower.address);
+      expect(stored.score).to.equal(80);
+      expect(stored.commitment).to.equal(opening.commitment);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+
+      expect(verifyRatingCommitment(stored.commitment, opening)).to.be.true;
+      expect(verifyRatingCommitment(stored.commitment, { ...opening, score: 88 })).to.be.false;
+    });
+
+    it("Should reject invalid floor scores and empty commitments", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender } = system;
+
+      await expect(sendPrivate(system, 87, { commitment: ethers.ZeroHash }))
+        .to.be.revertedWithCustomError(ratingSender, "InvalidCommitment");
+      await expect(sendPrivate(system, 87, { floorScore: 101 }))
+        .to.be.revertedWithCustomError(ratingSender, "InvalidRatingScore");
+    });
+
+    it("Should keep the sent floor when the tiers change in flight", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, relayer, borrower } = system;
+
+      const { tx } = await sendPrivate(system, 87);
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeLtvTiers([
+        { minScore: 90, ltvBps: 8000, liquidationThresholdBps: 8500, liquidationBonusBps: 10500 },
+        { minScore: 60, ltvBps: 6000, liquidationThresholdBps: 7000, liquidationBonusBps: 10500 },
+      ]));
+      await relayer.relay(await tx.wait());
+
+      // Priced by the sent floor on the new table, never above the exact score
+      expect((await ratingConsumer.borrowerRatings(borrower.address)).score).to.equal(80);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+    });
+
+    it("Should price private ratings at the default LTV on asset curves", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, relayer, borrower, other } = system;
+      const asset = other.address;
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeAssetLtvTiers(asset, [
+        { minScore: 85, ltvBps: 8500, liquidationThresholdBps: 9000, liquidationBonusBps: 10500 },
+      ]));
+
+      const { tx } = await sendPrivate(system, 87);
+      await relayer.relay(await tx.wait());
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, asset)).to.equal(40);
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, ethers.ZeroAddress)).to.equal(75);
+
+      await deliverRating(system, borrower.address, 87);
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, asset)).to.equal(85);
+    });
+
+    it("Should only accept private ratings in private mode", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, rater, borrower } = system;
+
+      await expect(ratingSender.connect(rater).setPrivateRatingsOnly(true))
+        .to.be.revertedWithCustomError(ratingSender, "AccessControlUnauthorizedAccount");
+      await expect(ratingSender.setPrivateRatingsOnly(true))
+        .to.emit(ratingSender, "PrivateRatingsOnlyUpdated")
+        .withArgs(true);
+
+      await expect(
+        ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 87, { value: DISPATCH_FEE })
+      ).to.be.revertedWithCustomError(ratingSender, "PlaintextRatingsDisabled");
+      await expect(
+        ratingSender.connect(rater).sendRatingBatchToAll([borrower.address], [87], { value: DISPATCH_FEE })
+      ).to.be.revertedWithCustomError(ratingSender, "PlaintextRatingsDisabled");
+
+      await sendPrivate(system, 87);
+    });
+
+    it("Should count private ratings against the rate limit", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      await system.ratingSender.setRatingLimits(3600, 1, 0);
+      await sendPrivate(system, 87);
+
+      await expect(sendPrivate(system, 60))
+        .to.be.revertedWithCustomError(system.ratingSender, "RateLimitExceeded");
+    });
+
+    it("Should check the floor against the max score delta", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, owner, rater, borrower } = system;
+      await ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 10, { value: DISPATCH_FEE });
+      await ratingSender.setRatingLimits(0, 0, 10);
+
+      await expect(sendPrivate(system, 90))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded")
+        .withArgs(borrower.address, 10, 80, 10);
+
+      await ratingSender.approveScoreJump(borrower.address, 80);
+      const { tx } = await sendPrivate(system, 90);
+      await expect(tx)
+        .to.emit(ratingSender, "ScoreJumpApplied")
+        .withArgs(borrower.address, 10, 80, rater.address, owner.address);
+      expect((await ratingSender.lastScores(borrower.address)).score).to.equal(80);
+
+      // The recorded floor is what the next plaintext rating is compared with
+      await expect(ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 10, { value: DISPATCH_FEE }))
+        .to.be.revertedWithCustomError(ratingSender, "ScoreDeltaExceeded")
+        .withArgs(borrower.address, 80, 10, 10);
+    });
+  });
+
+  describe("Rating Refresh", function () {
+    const enableRefresh = async (system: any) => {
+      await system.ratingConsumer.setRefreshRoute(ETHEREUM_DOMAIN, system.senderBytes32);
+      return system;
+    };
+
+    it("Should carry a refresh request back to the sender until the borrower is rated", async function () {
+      const system = await enableRefresh(await loadFixture(deployLocalRatingSystem));
+      const { ratingSender, ratingConsumer, relayer, rater, borrower } = system;
+
+      const tx = await ratingConsumer.connect(borrower).requestRatingRefresh(borrower.address);
+      await expect(tx)
+        .to.emit(ratingConsumer, "RatingRefreshRequested")
+        .withArgs(borrower.address, borrower.address, 1, anyValue);
+
+      const receipt = await tx.wait();
+      const [message] = await relayer.getDispatchedMessages(receipt);
+      expect(message.destination).to.equal(ETHEREUM_DOMAIN);
+      const decoded = decodeRatingMessage(message.body);
+      expect(decoded).to.include({ type: MessageType.RefreshRequest, nonce: 1n, requester: borrower.address });
+      expect(encodeRatingMessage(decoded)).to.equal(message.body);
+
+      const [processReceipt] = await relayer.relay(receipt);
+      await expect(processReceipt.hash)
+        .to.emit(ratingSender, "RatingRefreshRequested")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address, borrower.address, 1);
+      expect((await ratingSender.refreshRequests(ARBITRUM_DOMAIN, borrower.address)).requester)
+        .to.equal(borrower.address);
+
+      const sendTx = await ratingSender.connect(rater).sendRating(ARBITRUM_DOMAIN, borrower.address, 85, {
+        value: DISPATCH_FEE,
+      });
+      await expect(sendTx)
+        .to.emit(ratingSender, "RatingRefreshFulfilled")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address);
+      expect((await ratingSender.refreshRequests(ARBITRUM_DOMAIN, borrower.address)).requestedAt).to.equal(0);
+
+      await relayer.relay(await sendTx.wait());
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(85);
+    });
+
+    it("Should only route refresh requests to a registered sender", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower, other, senderBytes32 } = system;
+
+      await expect(ratingConsumer.requestRatingRefresh(borrower.address))
+        .to.be.revertedWithCustomError(ratingConsumer, "RefreshNotConfigured");
+      await expect(ratingConsumer.connect(other).setRefreshRoute(ETHEREUM_DOMAIN, senderBytes32))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+
+      const unknown = ethers.zeroPadValue(other.address, 32);
+      await expect(ratingConsumer.setRefreshRoute(ETHEREUM_DOMAIN, unknown))
+        .to.be.revertedWithCustomError(ratingConsumer, "SenderNotFound")
+        .withArgs(ETHEREUM_DOMAIN, unknown);
+
+      await expect(ratingConsumer.setRefreshRoute(ETHEREUM_DOMAIN, senderBytes32))
+        .to.emit(ratingConsumer, "RefreshRouteUpdated")
+        .withArgs(ETHEREUM_DOMAIN, senderBytes32);
+      await ratingConsumer.setRefreshRoute(ETHEREUM_DOMAIN, ethers.ZeroHash);
+      await expect(ratingConsumer.requestRatingRefresh(borrower.address))
+        .to.be.revertedWithCustomError(ratingConsumer, "RefreshNotConfigured");
+    });
+
+    it("Should charge the quoted fee and refund the excess", async function () {
+      const system = await enableRefresh(await loadFixture(deployLocalRatingSystem));
+      const { ratingConsumer, destinationMailbox, borrower } = system;
+      await destinationMailbox.setFee(DISPATCH_FEE);
+
+      expect(await ratingConsumer.connect(borrower).quoteRatingRefresh(borrower.address)).to.equal(DISPATCH_FEE);
+      await expect(ratingConsumer.connect(borrower).requestRatingRefresh(borrower.address, { value: DISPATCH_FEE - 1n }))
+        .to.be.revertedWithCustomError(ratingConsumer, "InsufficientFee")
+        .withArgs(DISPATCH_FEE, DISPATCH_FEE - 1n);
+
+      await expect(
+        ratingConsumer.connect(borrower).requestRatingRefresh(borrower.address, { value: DISPATCH_FEE * 2n })
+      ).to.changeEtherBalances([borrower, destinationMailbox], [-DISPATCH_FEE, DISPATCH_FEE]);
+    });
+
+    it("Should only accept refresh requests from the destination's consumer", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingSender, originMailbox, borrower, other, consumerBytes32 } = system;
+      const body = encodeRatingMessage({
+        type: MessageType.RefreshRequest,
+        nonce: 1n,
+        borrower: borrower.address,
+        requester: borrower.address,
+      });
+
+      await expect(ratingSender.handle(ARBITRUM_DOMAIN, consumerBytes32, body))
+        .to.be.revertedWithCustomError(ratingSender, "UnauthorizedMailbox");
+
+      const mailboxSigner = await impersonateMailbox(originMailbox);
+      const stranger = ethers.zeroPadValue(other.address, 32);
+      await expect(ratingSender.connect(mailboxSigner).handle(ARBITRUM_DOMAIN, stranger, body))
+        .to.be.revertedWithCustomError(ratingSender, "UnknownConsumer")
+        .withArgs(ARBITRUM_DOMAIN, stranger);
+      await expect(ratingSender.connect(mailboxSigner).handle(OPTIMISM_DOMAIN, consumerBytes32, body))
+        .to.be.revertedWithCustomError(ratingSender, "UnknownConsumer");
+
+      const rating = encodeRatingMessage({
+        type: MessageType.Rating,
+        nonce: 1n,
+        rater: other.address,
+        borrower: borrower.address,
+        score: 90,
+        timestamp: 1n,
+      });
+      await expect(ratingSender.connect(mailboxSigner).handle(ARBITRUM_DOMAIN, consumerBytes32, rating))
+        .to.be.revertedWithCustomError(ratingSender, "UnsupportedMessage");
+
+      await expect(ratingSender.connect(mailboxSigner).handle(ARBITRUM_DOMAIN, consumerBytes32, body))
+        .to.emit(ratingSender, "RatingRefreshRequested")
+        .withArgs(ARBITRUM_DOMAIN, borrower.address, borrower.address, 1);
+    });
+  });
+
+  describe("Batch Rating Flow", function () {
+    it("Should pack a batch into a single message", async function () {
+      const { ratingSender, ratingConsumer, relayer, rater } = await loadFixture(deployLocalRatingSystem);
+      const addresses = [
+        ethers.Wallet.createRandom().address,
+        ethers.Wallet.createRandom().address,
+        ethers.Wallet.createRandom().address,
+      ];
+      const scores = [80, 60, 35];
+
+      const tx = await ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN,
+        addresses,
+        scores,
+        { value: DISPATCH_FEE }
+      );
+      const receipt = await tx.wait();
+      const messages = await relayer.getDispatchedMessages(receipt);
+      expect(messages).to.have.length(1);
+
+      const decoded = decodeRatingMessage(messages[0].body);
+      expect(decoded.type).to.equal(MessageType.Batch);
+      expect(decoded.nonce).to.equal(1n);
+
+      const [processReceipt] = await relayer.relay(receipt);
+      const consumerLogs = processReceipt.logs
+        .map((log) => ratingConsumer.interface.parseLog(log as any))
+        .filter((log) => log?.name === "RatingUpdated");
+      expect(consumerLogs.map((log) => log!.args.borrower)).to.deep.equal(addresses);
+
+      await expect(processReceipt.hash)
+        .to.emit(ratingConsumer, "RatingBatchApplied")
+        .withArgs(ETHEREUM_DOMAIN, 1, 3);
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](addresses[0])).to.equal(75);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](addresses[1])).to.equal(60);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](addresses[2])).to.equal(40);
+      expect(await ratingSender.totalRatingsSent()).to.equal(3);
+    });
+
+    it("Should quote a single message fee for a batch", async function () {
+      const { ratingSender, borrower, other } = await loadFixture(deployLocalRatingSystem);
+
+      expect(await ratingSender.quoteGasPaymentBatch(
+        ARBITRUM_DOMAIN,
+        [borrower.address, other.address],
+        [90, 10]
+      )).to.equal(DISPATCH_FEE);
+    });
+
+    it("Should round-trip a batch message off-chain", async function () {
+      const message = {
+        version: RATING_MESSAGE_VERSION,
+        type: MessageType.Batch as const,
+        nonce: 7n,
+        rater: ethers.Wallet.createRandom().address,
+        ratings: [
+          { borrower: ethers.Wallet.createRandom().address, score: 10 },
+          { borrower: ethers.Wallet.createRandom().address, score: 99 },
+        ],
+        timestamp: 1700000000n,
+        expiresAt: 1700003600n,
+      };
+
+      expect(decodeRatingMessage(encodeRatingMessage(message))).to.deep.equal(message);
+    });
+  });
+
+  describe("Emergency Pause", function () {
+    const sendRating = async (system: Awaited<ReturnType<typeof deployLocalRatingSystem>>, score: number) => {
+      const tx = await system.ratingSender.connect(system.rater).sendRating(
+        ARBITRUM_DOMAIN, system.borrower.address, score, { value: DISPATCH_FEE }
+      );
+      const [message] = await system.relayer.getDispatchedMessages(await tx.wait());
+      return message;
+    };
+
+    it("Should halt sending while the sender is paused", async function () {
+      const { ratingSender, rater, borrower, other } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingSender.connect(other).pause())
+        .to.be.revertedWithCustomError(ratingSender, "AccessControlUnauthorizedAccount");
+      await ratingSender.pause();
+
+      await expect(ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 70, { value: DISPATCH_FEE }
+      )).to.be.revertedWithCustomError(ratingSender, "EnforcedPause");
+      await expect(ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN, [borrower.address], [70], { value: DISPATCH_FEE }
+      )).to.be.revertedWithCustomError(ratingSender, "EnforcedPause");
+
+      await ratingSender.unpause();
+      await expect(ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 70, { value: DISPATCH_FEE }
+      )).to.emit(ratingSender, "RatingSent");
+    });
+
+    it("Should fall back to the default LTV and reject messages while paused", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, relayer, borrower } = system;
+
+      await deliverRating(system, borrower.address, 85);
+      await ratingConsumer.pause();
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+      expect((await ratingConsumer.getBorrowerRiskParams(borrower.address)).isValid).to.be.false;
+
+      const message = await sendRating(system, 55);
+      await expect(relayer.deliver(message))
+        .to.be.revertedWithCustomError(ratingConsumer, "EnforcedPause");
+
+      // The relayer can retry once unpaused
+      await ratingConsumer.unpause();
+      await relayer.deliver(message);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+    });
+
+    it("Should queue messages while paused and apply them after unpausing", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, relayer, borrower } = system;
+
+      await expect(ratingConsumer.setPausedMessagePolicy(1))
+        .to.emit(ratingConsumer, "PausedMessagePolicyUpdated")
+        .withArgs(1);
+      await ratingConsumer.pause();
+
+      await expect(relayer.deliver(await sendRating(system, 85)))
+        .to.emit(ratingConsumer, "MessageQueued")
+        .withArgs(0, ETHEREUM_DOMAIN, 1);
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(1);
+      const [origin, sender] = await ratingConsumer.getQueuedMessage(0);
+      expect([origin, sender]).to.deep.equal([BigInt(ETHEREUM_DOMAIN), system.senderBytes32]);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).timestamp).to.equal(0);
+
+      await expect(ratingConsumer.processQueuedMessages(10))
+        .to.be.revertedWithCustomError(ratingConsumer, "EnforcedPause");
+
+      await ratingConsumer.unpause();
+      await expect(ratingConsumer.processQueuedMessages(10))
+        .to.emit(ratingConsumer, "QueuedMessageProcessed")
+        .withArgs(0);
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(0);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+    });
+
+    it("Should drop queued messages that can no longer apply", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, relayer } = system;
+
+      await ratingConsumer.setPausedMessagePolicy(1);
+      await ratingConsumer.pause();
+      await relayer.deliver(await sendRating(system, 85));
+
+      await time.increase(24 * 3600 + 1);
+      await ratingConsumer.unpause();
+
+      const staleRating = ratingConsumer.interface.encodeErrorResult("StaleRating");
+      await expect(ratingConsumer.processQueuedMessages(10))
+        .to.emit(ratingConsumer, "QueuedMessageFailed")
+        .withArgs(0, staleRating);
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(0);
+
+      await expect(ratingConsumer.applyQueuedMessage(ETHEREUM_DOMAIN, ethers.ZeroHash, "0x"))
+        .to.be.revertedWithCustomError(ratingConsumer, "UnauthorizedCaller");
+    });
+
+    it("Should keep queued messages that run out of gas", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, ratingSender, relayer, rater, other } = system;
+
+      await ratingConsumer.setPausedMessagePolicy(1);
+      await ratingConsumer.pause();
+      const borrowers = Array.from({ length: 40 }, () => ethers.Wallet.createRandom().address);
+      const tx = await ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN, borrowers, borrowers.map(() => 70), { value: DISPATCH_FEE }
+      );
+      await relayer.relay(await tx.wait());
+      await ratingConsumer.unpause();
+
+      await expect(ratingConsumer.connect(other).processQueuedMessages(10))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+
+      // Enough gas to attempt the batch, not to apply it
+      await expect(ratingConsumer.processQueuedMessages(10, { gasLimit: 500_000 }))
+        .to.not.emit(ratingConsumer, "QueuedMessageFailed");
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(1);
+      expect(await ratingConsumer.queueHead()).to.equal(0);
+
+      // Too little gas to attempt it at all
+      await ratingConsumer.processQueuedMessages(10, { gasLimit: 150_000 });
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(1);
+
+      await expect(ratingConsumer.processQueuedMessages(10))
+        .to.emit(ratingConsumer, "QueuedMessageProcessed")
+        .withArgs(0);
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(0);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrowers[39])).to.equal(60);
+    });
+
+    it("Should drop a queued message that cannot be decoded and apply the next", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, destinationMailbox, relayer, borrower, senderBytes32 } = system;
+
+      await ratingConsumer.setPausedMessagePolicy(1);
+      await ratingConsumer.pause();
+
+      // A valid header with a truncated payload fails abi.decode without revert data
+      const body = encodeRatingMessage({
+        type: MessageType.Rating,
+        borrower: borrower.address,
+        score: 85,
+        timestamp: BigInt(await time.latest()),
+        nonce: 100n,
+        rater: ethers.ZeroAddress,
+      });
+      const mailboxSigner = await impersonateMailbox(destinationMailbox);
+      await ratingConsumer.connect(mailboxSigner).handle(ETHEREUM_DOMAIN, senderBytes32, ethers.dataSlice(body, 0, 66));
+      await relayer.deliver(await sendRating(system, 55));
+      await ratingConsumer.unpause();
+
+      await expect(ratingConsumer.processQueuedMessages(10))
+        .to.emit(ratingConsumer, "QueuedMessageFailed")
+        .withArgs(0, "0x")
+        .and.to.emit(ratingConsumer, "QueuedMessageProcessed")
+        .withArgs(1);
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(0);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+    });
+
+    it("Should let a pauser discard queued messages", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, relayer, borrower, other } = system;
+
+      await ratingConsumer.setPausedMessagePolicy(1);
+      await ratingConsumer.pause();
+      await relayer.deliver(await sendRating(system, 85));
+      await relayer.deliver(await sendRating(system, 55));
+
+      await expect(ratingConsumer.connect(other).discardQueuedMessages(1))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+
+      // Discarding works while paused and leaves later messages queued
+      await expect(ratingConsumer.discardQueuedMessages(1))
+        .to.emit(ratingConsumer, "QueuedMessageDiscarded")
+        .withArgs(0);
+      expect(await ratingConsumer.queuedMessageCount()).to.equal(1);
+      expect(await ratingConsumer.queueHead()).to.equal(1);
+
+      // A discarded message's nonce stays used, so it cannot be delivered again
+      expect(await ratingConsumer.processedNonces(ETHEREUM_DOMAIN, system.senderBytes32, 1)).to.be.true;
+      await ratingConsumer.unpause();
+
+      await expect(ratingConsumer.processQueuedMessages(10))
+        .to.emit(ratingConsumer, "QueuedMessageProcessed")
+        .withArgs(1);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+      expect(await ratingConsumer.discardQueuedMessages.staticCall(10)).to.equal(0);
+    });
+
+    it("Should trip the circuit breaker on a burst of large score changes", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower, other } = system;
+
+      await expect(ratingConsumer.proposeCircuitBreaker(1, 101, 3600))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidCircuitBreaker");
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeCircuitBreaker(1, 20, 3600)))
+        .to.emit(ratingConsumer, "CircuitBreakerUpdated")
+        .withArgs(1, 20, 3600);
+
+      // First ratings and small moves do not count
+      await deliverRating(system, borrower.address, 50);
+      await deliverRating(system, other.address, 50);
+      await deliverRating(system, borrower.address, 60);
+      await deliverRating(system, borrower.address, 85);
+      expect(await ratingConsumer.paused()).to.be.false;
+
+      const receipt = await deliverRating(system, other.address, 85);
+      const tripped = receipt!.logs
+        .map((log) => ratingConsumer.interface.parseLog(log))
+        .find((log) => log?.name === "CircuitBreakerTripped");
+      expect(tripped!.args.largeChanges).to.equal(2);
+      expect(await ratingConsumer.paused()).to.be.true;
+      expect(await ratingConsumer["getBorrowerLTV(address)"](other.address)).to.equal(40);
+
+      // Unpausing starts a fresh window
+      await ratingConsumer.unpause();
+      expect(await ratingConsumer.breakerLargeChanges()).to.equal(0);
+    });
+  });
+});
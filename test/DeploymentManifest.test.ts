@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import {
+  DEPLOYMENT_MANIFEST_VERSION,
+  deploymentsPath,
+  detectProxyKind,
+  readDeploymentManifest,
+  recordDeployment,
+} from "../tasks/deploymentManifest";
+import { deployContractWithProxy } from "../tasks/utils";
+
+const TEST_NETWORK = "manifest-test";
+
+describe("Deployment Manifest", function () {
+  const createdDeployments = !fs.existsSync(deploymentsPath);
+  const manifestFiles = [TEST_NETWORK, hre.network.name].map((name) => path.join(deploymentsPath, `${name}.json`));
+  const previousContents = new Map<string, string>();
+
+  const writeManifestFile = (networkName: string, content: unknown) => {
+    fs.mkdirSync(deploymentsPath, { recursive: true });
+    fs.writeFileSync(path.join(deploymentsPath, `${networkName}.json`), JSON.stringify(content));
+  };
+
+  before(function () {
+    for (const file of manifestFiles) {
+      if (fs.existsSync(file)) previousContents.set(file, fs.readFileSync(file, "utf8"));
+    }
+  });
+
+  afterEach(function () {
+    for (const file of manifestFiles) {
+      if (previousContents.has(file)) {
+        fs.writeFileSync(file, previousContents.get(file)!);
+      } else if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+    if (createdDeployments && fs.existsSync(deploymentsPath)) {
+      fs.rmSync(deploymentsPath, { recursive: true });
+    }
+  });
+
+  it("Should read a version 1 manifest as contracts without history", async function () {
+    const [, other] = await ethers.getSigners();
+    writeManifestFile(TEST_NETWORK, { RatingSender: other.address });
+
+    expect(readDeploymentManifest(TEST_NETWORK)).to.deep.equal({
+      manifestVersion: DEPLOYMENT_MANIFEST_VERSION,
+      network: TEST_NETWORK,
+      contracts: { RatingSender: { address: other.address, history: [] } },
+    });
+  });
+
+  it("Should rewrite a version 1 manifest when a deployment is recorded", async function () {
+    const [, other] = await ethers.getSigners();
+    writeManifestFile(hre.network.name, { RatingConsumer: other.address });
+
+    const mailbox = await ethers.deployContract("MockMailbox", [1]);
+    const deployTx = mailbox.deploymentTransaction()!;
+    const record = await recordDeployment(hre, "MockMailbox", mailbox, "deploy", deployTx.hash);
+
+    const manifest = readDeploymentManifest(hre.network.name);
+    expect(manifest.manifestVersion).to.equal(DEPLOYMENT_MANIFEST_VERSION);
+    expect(manifest.chainId).to.equal(Number((await ethers.provider.getNetwork()).chainId));
+    expect(manifest.contracts.RatingConsumer).to.deep.equal({ address: other.address, history: [] });
+    expect(manifest.contracts.MockMailbox).to.deep.equal({
+      address: await mailbox.getAddress(),
+      history: [record],
+    });
+    expect(record.txHash).to.equal(deployTx.hash);
+    expect(record.implementation).to.be.null;
+  });
+
+  it("Should reject a manifest written by a newer version", async function () {
+    writeManifestFile(TEST_NETWORK, {
+      manifestVersion: DEPLOYMENT_MANIFEST_VERSION + 1,
+      network: TEST_NETWORK,
+      contracts: {},
+    });
+
+    expect(() => readDeploymentManifest(TEST_NETWORK))
+      .to.throw(`Unsupported deployment manifest version ${DEPLOYMENT_MANIFEST_VERSION + 1}`);
+  });
+
+  it("Should record the upgrade transaction of a proxy", async function () {
+    const [, other] = await ethers.getSigners();
+    const ratingSender = await deployContractWithProxy(hre, "RatingSender", [other.address]);
+    const proxyAddress = await ratingSender.getAddress();
+    await deployContractWithProxy(hre, "RatingSender", [other.address]);
+
+    const { history, proxyKind } = readDeploymentManifest(hre.network.name).contracts.RatingSender;
+    expect(proxyKind).to.equal("transparent");
+    expect(history.map((record) => record.action)).to.deep.equal(["deploy", "upgrade"]);
+
+    // The recorded transaction is the one that emitted Upgraded for the new implementation
+    const receipt = await ethers.provider.getTransactionReceipt(history[1].txHash);
+    const upgraded = ethers.id("Upgraded(address)");
+    const log = receipt!.logs.find((log) => log.address === proxyAddress && log.topics[0] === upgraded);
+    expect(log!.topics[1]).to.equal(ethers.zeroPadValue(history[1].implementation!.toLowerCase(), 32));
+    expect(history[1].implementation).to.not.equal(history[0].implementation);
+
+    expect(await detectProxyKind(hre, proxyAddress)).to.equal("transparent");
+    expect(await detectProxyKind(hre, other.address)).to.be.undefined;
+  });
+});
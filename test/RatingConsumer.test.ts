@@ -0,0 +1,772 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { RatingConsumer } from "../typechain-types";
+import {
+  ARBITRUM_DOMAIN,
+  DISPATCH_FEE,
+  applyConsumerChange,
+  deliverRating,
+  deployLocalRatingSystem,
+} from "./helpers/fixtures";
+import { decodeRatingMessage } from "../tasks/ratingMessage";
+import { prepareImplementation } from "../tasks/utils";
+
+const tier = (
+  minScore: number,
+  ltvBps: number,
+  liquidationThresholdBps: number = ltvBps,
+  liquidationBonusBps: number = 10500
+) => ({ minScore, ltvBps, liquidationThresholdBps, liquidationBonusBps });
+
+describe("RatingConsumer", function () {
+  describe("LTV Tiers", function () {
+    it("Should start with the default tier table", async function () {
+      const { ratingConsumer } = await loadFixture(deployLocalRatingSystem);
+
+      const tiers = await ratingConsumer.getLtvTiers();
+      expect(tiers.map((t) => [t.minScore, t.ltvBps, t.liquidationThresholdBps, t.liquidationBonusBps]))
+        .to.deep.equal([
+          [80n, 7500n, 8000n, 10500n],
+          [50n, 6000n, 7000n, 10750n],
+          [0n, 4000n, 5000n, 11000n],
+        ]);
+    });
+
+    it("Should apply a new tier table without an upgrade", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await deliverRating(system, borrower.address, 85);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+
+      const tiers = [
+        tier(90, 8000),
+        tier(70, 7000),
+        tier(30, 5000),
+      ];
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeLtvTiers(tiers)))
+        .to.emit(ratingConsumer, "LtvTiersUpdated");
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(70);
+    });
+
+    it("Should fall back to the default LTV below every threshold", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeLtvTiers([tier(60, 6500)]));
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeDefaultLTV(25));
+      await deliverRating(system, borrower.address, 59);
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(25);
+    });
+
+    it("Should reject invalid tier tables", async function () {
+      const { ratingConsumer } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.proposeLtvTiers([]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidLtvTierCount")
+        .withArgs(0);
+      await expect(ratingConsumer.proposeLtvTiers([
+        tier(50, 6000),
+        tier(50, 5000),
+      ]))
+        .to.be.revertedWithCustomError(ratingConsumer, "LtvTierNotDescending")
+        .withArgs(1);
+      await expect(ratingConsumer.proposeLtvTiers([tier(50, 10_001)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "LtvExceedsMaximum")
+        .withArgs(10_001);
+      await expect(ratingConsumer.proposeLtvTiers([tier(50, 6000, 5900)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidLiquidationThreshold")
+        .withArgs(5900);
+      await expect(ratingConsumer.proposeLtvTiers([tier(50, 6000, 7000, 9999)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidLiquidationBonus")
+        .withArgs(9999);
+      await expect(ratingConsumer.proposeLtvTiers([tier(50, 9000, 9500, 10600)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidLiquidationBonus")
+        .withArgs(10600);
+      await expect(ratingConsumer.proposeLtvTiers([tier(101, 5000)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidRatingScore");
+    });
+
+    it("Should only allow the owner to change tiers", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.connect(other).proposeLtvTiers([tier(0, 9000)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Asset LTV Curves", function () {
+    const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+    const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+    it("Should use the asset curve and fall back to the global tiers", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await deliverRating(system, borrower.address, 85);
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeAssetLtvTiers(WETH, [
+        tier(80, 8250),
+        tier(0, 5000),
+      ])))
+        .to.emit(ratingConsumer, "AssetLtvTiersUpdated");
+
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, WETH)).to.equal(82);
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, USDC)).to.equal(75);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+      expect(await ratingConsumer.getLtvAssets()).to.deep.equal([WETH]);
+    });
+
+    it("Should return the default LTV for unrated borrowers", async function () {
+      const { ratingConsumer, borrower } = await loadFixture(deployLocalRatingSystem);
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeAssetLtvTiers(WETH, [tier(0, 9000)]));
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, WETH)).to.equal(40);
+    });
+
+    it("Should remove an asset curve", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await deliverRating(system, borrower.address, 55);
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeAssetLtvTiers(WETH, [tier(0, 3000)]));
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, WETH)).to.equal(30);
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeRemoveAssetLtvTiers(WETH)))
+        .to.emit(ratingConsumer, "AssetLtvTiersRemoved")
+        .withArgs(WETH);
+      expect(await ratingConsumer["getBorrowerLTV(address,address)"](borrower.address, WETH)).to.equal(60);
+      expect(await ratingConsumer.getAssetLtvTiers(WETH)).to.have.length(0);
+      expect(await ratingConsumer.getLtvAssets()).to.have.length(0);
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeRemoveAssetLtvTiers(WETH)))
+        .to.be.revertedWithCustomError(ratingConsumer, "AssetNotConfigured")
+        .withArgs(WETH);
+    });
+
+    it("Should validate asset curves like the global tiers", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.proposeAssetLtvTiers(WETH, [
+        tier(10, 5000),
+        tier(20, 4000),
+      ]))
+        .to.be.revertedWithCustomError(ratingConsumer, "LtvTierNotDescending")
+        .withArgs(1);
+      await expect(ratingConsumer.proposeAssetLtvTiers(ethers.ZeroAddress, [tier(0, 5000)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAddress");
+      await expect(ratingConsumer.connect(other).proposeAssetLtvTiers(WETH, [tier(0, 5000)]))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Risk Parameters", function () {
+    it("Should return basis-point risk params from the matching tier", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeLtvTiers([
+        tier(70, 7250, 7800, 10500),
+        tier(0, 4050, 5000, 11000),
+      ]));
+      await deliverRating(system, borrower.address, 71);
+
+      const params = await ratingConsumer.getBorrowerRiskParams(borrower.address);
+      expect(params.ltvBps).to.equal(7250);
+      expect(params.liquidationThresholdBps).to.equal(7800);
+      expect(params.liquidationBonusBps).to.equal(10500);
+      expect(params.isValid).to.be.true;
+
+      // Percent API is kept and truncates
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(72);
+    });
+
+    it("Should return the defaults for missing or stale ratings", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      let params = await ratingConsumer.getBorrowerRiskParams(borrower.address);
+      expect([params.ltvBps, params.liquidationThresholdBps, params.liquidationBonusBps, params.isValid])
+        .to.deep.equal([4000n, 5000n, 11000n, false]);
+
+      await deliverRating(system, borrower.address, 95);
+      await time.increase(24 * 3600 + 1);
+
+      params = await ratingConsumer.getBorrowerRiskParams(borrower.address);
+      expect(params.ltvBps).to.equal(4000);
+      expect(params.isValid).to.be.false;
+    });
+
+    it("Should keep default params consistent with the default LTV", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeDefaultLiquidationParams(6000, 10800)))
+        .to.emit(ratingConsumer, "DefaultLiquidationParamsUpdated")
+        .withArgs(6000, 10800);
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeDefaultLTV(61)))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidLiquidationThreshold")
+        .withArgs(6000);
+      await expect(ratingConsumer.proposeDefaultLiquidationParams(3000, 10800))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidLiquidationThreshold")
+        .withArgs(3000);
+      await expect(ratingConsumer.connect(other).proposeDefaultLiquidationParams(6000, 10800))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Rating History", function () {
+    const scoresOf = (ratings: { score: bigint }[]) => ratings.map((rating) => Number(rating.score));
+
+    it("Should page through history newest first", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      for (const score of [60, 70, 80]) {
+        await deliverRating(system, borrower.address, score);
+      }
+
+      const [all, total] = await ratingConsumer.getRatingHistory(borrower.address, 0, 10);
+      expect(total).to.equal(3);
+      expect(scoresOf(all)).to.deep.equal([80, 70, 60]);
+
+      const [page] = await ratingConsumer.getRatingHistory(borrower.address, 1, 1);
+      expect(scoresOf(page)).to.deep.equal([70]);
+
+      const [empty] = await ratingConsumer.getRatingHistory(borrower.address, 3, 10);
+      expect(empty).to.have.length(0);
+    });
+
+    it("Should evict the oldest entries beyond the configured depth", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await expect(ratingConsumer.setRatingHistoryDepth(2))
+        .to.emit(ratingConsumer, "RatingHistoryDepthUpdated")
+        .withArgs(2);
+      for (const score of [60, 70, 80]) {
+        await deliverRating(system, borrower.address, score);
+      }
+
+      const [ratings, total] = await ratingConsumer.getRatingHistory(borrower.address, 0, 10);
+      expect(total).to.equal(2);
+      expect(scoresOf(ratings)).to.deep.equal([80, 70]);
+    });
+
+    it("Should keep the newest entries when the depth changes", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await ratingConsumer.setRatingHistoryDepth(3);
+      for (const score of [10, 20, 30, 40]) {
+        await deliverRating(system, borrower.address, score);
+      }
+
+      // Shrinking hides the oldest entries before the buffer is rewritten
+      await ratingConsumer.setRatingHistoryDepth(2);
+      let [ratings] = await ratingConsumer.getRatingHistory(borrower.address, 0, 10);
+      expect(scoresOf(ratings)).to.deep.equal([40, 30]);
+
+      await deliverRating(system, borrower.address, 50);
+      [ratings] = await ratingConsumer.getRatingHistory(borrower.address, 0, 10);
+      expect(scoresOf(ratings)).to.deep.equal([50, 40]);
+
+      await ratingConsumer.setRatingHistoryDepth(4);
+      await deliverRating(system, borrower.address, 60);
+      await deliverRating(system, borrower.address, 70);
+      [ratings] = await ratingConsumer.getRatingHistory(borrower.address, 0, 10);
+      expect(scoresOf(ratings)).to.deep.equal([70, 60, 50, 40]);
+    });
+
+    it("Should return the rating in effect at a timestamp", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, borrower } = system;
+
+      await deliverRating(system, borrower.address, 55);
+      const firstReceivedAt = (await ratingConsumer.getBorrowerRating(borrower.address)).receivedAt;
+      await time.increase(3600);
+      await deliverRating(system, borrower.address, 85);
+      const secondReceivedAt = (await ratingConsumer.getBorrowerRating(borrower.address)).receivedAt;
+
+      let rating = await ratingConsumer.getRatingAt(borrower.address, firstReceivedAt - 1n);
+      expect(rating.found).to.be.false;
+
+      rating = await ratingConsumer.getRatingAt(borrower.address, secondReceivedAt - 1n);
+      expect(rating.score).to.equal(55);
+      expect(rating.receivedAt).to.equal(firstReceivedAt);
+      expect(rating.found).to.be.true;
+
+      rating = await ratingConsumer.getRatingAt(borrower.address, secondReceivedAt);
+      expect(rating.score).to.equal(85);
+    });
+
+    it("Should validate the history depth", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      expect(await ratingConsumer.ratingHistoryDepth()).to.equal(16);
+      await expect(ratingConsumer.setRatingHistoryDepth(0))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidHistoryDepth")
+        .withArgs(0);
+      await expect(ratingConsumer.setRatingHistoryDepth(129))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidHistoryDepth")
+        .withArgs(129);
+      await expect(ratingConsumer.connect(other).setRatingHistoryDepth(4))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Timelocked Changes", function () {
+    const proposedId = async (ratingConsumer: any, tx: any) => {
+      const receipt = await (await tx).wait();
+      return receipt.logs
+        .map((log: any) => ratingConsumer.interface.parseLog(log))
+        .find((log: any) => log?.name === "ChangeProposed").args.id;
+    };
+
+    it("Should only apply a change after the delay", async function () {
+      const { ratingConsumer } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeChangeDelay(3600)))
+        .to.emit(ratingConsumer, "ChangeDelayUpdated")
+        .withArgs(3600);
+
+      const id = await proposedId(ratingConsumer, ratingConsumer.proposeMaxRatingAge(7200));
+      const change = await ratingConsumer.getPendingChange(id);
+      expect(change.changeType).to.equal(0);
+      expect(change.eta).to.equal(BigInt(await time.latest()) + 3600n);
+
+      await expect(ratingConsumer.executeChange(id))
+        .to.be.revertedWithCustomError(ratingConsumer, "ChangeNotReady")
+        .withArgs(id, change.eta);
+      expect(await ratingConsumer.maxRatingAge()).to.equal(24 * 3600);
+
+      const [ids] = await ratingConsumer.getPendingChanges();
+      expect(ids).to.deep.equal([id]);
+
+      await time.increaseTo(change.eta);
+      const tx = ratingConsumer.executeChange(id);
+      await expect(tx).to.emit(ratingConsumer, "ChangeExecuted");
+      await expect(tx).to.emit(ratingConsumer, "MaxRatingAgeUpdated").withArgs(7200);
+      expect(await ratingConsumer.maxRatingAge()).to.equal(7200);
+      expect((await ratingConsumer.getPendingChanges()).ids).to.have.length(0);
+    });
+
+    it("Should start with the default delay and timelock ISM changes", async function () {
+      const { factory, constructorArgs } = await prepareImplementation(hre, "RatingConsumer");
+      const [owner, other] = await ethers.getSigners();
+      const ratingConsumer = await upgrades.deployProxy(
+        factory,
+        [owner.address],
+        { initializer: "initialize", constructorArgs, unsafeAllowLinkedLibraries: true }
+      ) as unknown as RatingConsumer;
+
+      const delay = await ratingConsumer.DEFAULT_CHANGE_DELAY();
+      expect(delay).to.be.greaterThan(0);
+      expect(await ratingConsumer.changeDelay()).to.equal(delay);
+
+      const id = await proposedId(ratingConsumer, ratingConsumer.proposeInterchainSecurityModule(other.address));
+      const change = await ratingConsumer.getPendingChange(id);
+      expect(change.changeType).to.equal(6);
+      await expect(ratingConsumer.executeChange(id))
+        .to.be.revertedWithCustomError(ratingConsumer, "ChangeNotReady");
+      expect(await ratingConsumer.interchainSecurityModule()).to.equal(ethers.ZeroAddress);
+
+      await time.increaseTo(change.eta);
+      await expect(ratingConsumer.executeChange(id))
+        .to.emit(ratingConsumer, "InterchainSecurityModuleUpdated")
+        .withArgs(ethers.ZeroAddress, other.address);
+    });
+
+    it("Should cancel a pending change", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      const id = await proposedId(ratingConsumer, ratingConsumer.proposeMailbox(other.address));
+      await expect(ratingConsumer.cancelChange(id))
+        .to.emit(ratingConsumer, "ChangeCancelled")
+        .withArgs(id, 3);
+
+      await expect(ratingConsumer.executeChange(id))
+        .to.be.revertedWithCustomError(ratingConsumer, "ChangeNotFound")
+        .withArgs(id);
+      expect(await ratingConsumer.mailbox()).to.not.equal(other.address);
+    });
+
+    it("Should require the proposing role to execute or cancel", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      await ratingConsumer.grantRole(await ratingConsumer.RISK_PARAMETER_MANAGER_ROLE(), other.address);
+      const id = await proposedId(ratingConsumer, ratingConsumer.proposeMailbox(other.address));
+
+      await expect(ratingConsumer.connect(other).executeChange(id))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount")
+        .withArgs(other.address, await ratingConsumer.DEFAULT_ADMIN_ROLE());
+      await expect(ratingConsumer.connect(other).cancelChange(id))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.connect(other).proposeDefaultLTV(30)))
+        .to.emit(ratingConsumer, "DefaultLTVUpdated")
+        .withArgs(30);
+    });
+
+    it("Should timelock tier, liquidation, aggregation and circuit breaker changes", async function () {
+      const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeChangeDelay(3600));
+      await ratingConsumer.grantRole(await ratingConsumer.RISK_PARAMETER_MANAGER_ROLE(), other.address);
+      const riskManager = ratingConsumer.connect(other);
+
+      const ids = [
+        await proposedId(ratingConsumer, riskManager.proposeDefaultLiquidationParams(6000, 10800)),
+        await proposedId(ratingConsumer, riskManager.proposeLtvTiers([tier(0, 9000, 9000, 11000)])),
+        await proposedId(ratingConsumer, riskManager.proposeAssetLtvTiers(other.address, [tier(0, 3000)])),
+        await proposedId(ratingConsumer, riskManager.proposeRatingAggregation(1, [other.address], 1)),
+        await proposedId(ratingConsumer, riskManager.proposeCircuitBreaker(1, 20, 3600)),
+      ];
+      for (const id of ids) {
+        await expect(riskManager.executeChange(id))
+          .to.be.revertedWithCustomError(ratingConsumer, "ChangeNotReady");
+      }
+      expect(await ratingConsumer.defaultLiquidationThresholdBps()).to.equal(5000);
+      expect(await ratingConsumer.getLtvTiers()).to.have.length(3);
+      expect(await ratingConsumer.getLtvAssets()).to.have.length(0);
+      expect(await ratingConsumer.aggregationMode()).to.equal(0);
+      expect(await ratingConsumer.breakerMaxLargeChanges()).to.equal(0);
+
+      await time.increase(3600);
+      for (const id of ids) await riskManager.executeChange(id);
+      expect(await ratingConsumer.defaultLiquidationThresholdBps()).to.equal(6000);
+      expect(await ratingConsumer.getLtvTiers()).to.have.length(1);
+      expect(await ratingConsumer.getLtvAssets()).to.deep.equal([other.address]);
+      expect(await ratingConsumer.aggregationMode()).to.equal(1);
+      expect(await ratingConsumer.breakerMaxLargeChanges()).to.equal(1);
+
+      const id = await proposedId(ratingConsumer, riskManager.proposeRemoveAssetLtvTiers(other.address));
+      await time.increase(3600);
+      await expect(riskManager.executeChange(id))
+        .to.emit(ratingConsumer, "AssetLtvTiersRemoved")
+        .withArgs(other.address);
+    });
+
+    it("Should validate proposals", async function () {
+      const { ratingConsumer } = await loadFixture(deployLocalRatingSystem);
+
+      await expect(ratingConsumer.proposeChangeDelay(30 * 24 * 3600 + 1))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidChangeDelay");
+      await expect(ratingConsumer.proposeMailbox(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAddress");
+      await expect(ratingConsumer.proposeDefaultLTV(101))
+        .to.be.revertedWith("LTV cannot exceed 100%");
+    });
+  });
+
+  describe("Rating Aggregation", function () {
+    const MEDIAN = 1;
+    const MIN = 2;
+
+    // rater, other and owner all rate through the sender
+    const deployAggregatingSystem = async () => {
+      const system = await deployLocalRatingSystem();
+      const { ratingSender, owner, rater, other } = system;
+
+      await ratingSender.authorizeRater(other.address);
+      await ratingSender.authorizeRater(owner.address);
+      return { ...system, raters: [rater.address, other.address, owner.address] };
+    };
+
+    it("Should store the rater with each rating", async function () {
+      const system = await loadFixture(deployLocalRatingSystem);
+      const { ratingConsumer, rater, borrower } = system;
+
+      await deliverRating(system, borrower.address, 70);
+
+      expect((await ratingConsumer.borrowerRatings(borrower.address)).rater).to.equal(rater.address);
+      const [[entry]] = await ratingConsumer.getRatingHistory(borrower.address, 0, 1);
+      expect(entry.rater).to.equal(rater.address);
+    });
+
+    it("Should price the median of the latest rating from each rater", async function () {
+      const system = await loadFixture(deployAggregatingSystem);
+      const { ratingConsumer, borrower, owner, other, raters } = system;
+
+      await expect(applyConsumerChange(ratingConsumer, ratingConsumer.proposeRatingAggregation(MEDIAN, raters, 2)))
+        .to.emit(ratingConsumer, "RatingAggregationUpdated")
+        .withArgs(MEDIAN, raters, 2);
+      expect(await ratingConsumer.getAggregationRaters()).to.deep.equal(raters);
+
+      await deliverRating(system, borrower.address, 90);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+
+      await deliverRating(system, borrower.address, 30, other);
+      expect(await ratingConsumer.getEffectiveScore(borrower.address)).to.deep.equal([60n, true]);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+
+      await deliverRating(system, borrower.address, 85, owner);
+      expect(await ratingConsumer.getEffectiveScore(borrower.address)).to.deep.equal([85n, true]);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(85);
+    });
+
+    it("Should price the lowest rating in MIN mode", async function () {
+      const system = await loadFixture(deployAggregatingSystem);
+      const { ratingConsumer, borrower, other, raters } = system;
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeRatingAggregation(MIN, raters, 2));
+      await deliverRating(system, borrower.address, 90);
+      await deliverRating(system, borrower.address, 55, other);
+
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+      const [ltvBps, , , isValid] = await ratingConsumer.getBorrowerRiskParams(borrower.address);
+      expect(ltvBps).to.equal(6000);
+      expect(isValid).to.be.true;
+    });
+
+    it("Should fall back to the default LTV once fresh ratings drop below the quorum", async function () {
+      const system = await loadFixture(deployAggregatingSystem);
+      const { ratingConsumer, borrower, other, raters } = system;
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeRatingAggregation(MEDIAN, raters, 2));
+      await deliverRating(system, borrower.address, 90);
+      await time.increase(12 * 3600);
+      await deliverRating(system, borrower.address, 90, other);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(75);
+
+      // The first rating goes stale, leaving a single fresh one
+      await time.increase(13 * 3600);
+      expect(await ratingConsumer.getEffectiveScore(borrower.address)).to.deep.equal([0n, false]);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).isValid).to.be.true;
+    });
+
+    it("Should drop every rater's rating from the aggregate on revocation", async function () {
+      const system = await loadFixture(deployAggregatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, other, raters } = system;
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeRatingAggregation(MEDIAN, raters, 1));
+      await deliverRating(system, borrower.address, 90);
+      await deliverRating(system, borrower.address, 80, other);
+
+      const tx = await ratingSender.connect(rater).revokeRating(
+        ARBITRUM_DOMAIN, borrower.address, "fraud", { value: DISPATCH_FEE }
+      );
+      await relayer.relay(await tx.wait());
+      expect(await ratingConsumer.getEffectiveScore(borrower.address)).to.deep.equal([0n, false]);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(40);
+    });
+
+    it("Should count a rater's rating delivered after a newer one from another rater", async function () {
+      const system = await loadFixture(deployAggregatingSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, other, borrower, raters } = system;
+
+      await applyConsumerChange(ratingConsumer, ratingConsumer.proposeRatingAggregation(MIN, raters, 2));
+      const firstTx = await ratingSender.connect(rater).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 55, { value: DISPATCH_FEE }
+      );
+      const secondTx = await ratingSender.connect(other).sendRating(
+        ARBITRUM_DOMAIN, borrower.address, 90, { value: DISPATCH_FEE }
+      );
+      const [first] = await relayer.getDispatchedMessages(await firstTx.wait());
+      const [second] = await relayer.getDispatchedMessages(await secondTx.wait());
+
+      await relayer.deliver(second);
+      const tx = relayer.deliver(first);
+      await expect(tx)
+        .to.emit(ratingConsumer, "RaterRatingRecorded")
+        .withArgs(borrower.address, rater.address, 55, decodeRatingMessage(first.body).timestamp);
+      await expect(tx).to.not.emit(ratingConsumer, "OutOfOrderRatingIgnored");
+
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(90);
+      expect(await ratingConsumer["getBorrowerLTV(address)"](borrower.address)).to.equal(60);
+    });
+
+    it("Should validate the aggregation config", async function () {
+      const { ratingConsumer, other, raters } = await loadFixture(deployAggregatingSystem);
+
+      await expect(ratingConsumer.connect(other).proposeRatingAggregation(MEDIAN, raters, 2))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+      await expect(ratingConsumer.proposeRatingAggregation(MEDIAN, raters, 0))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAggregation");
+      await expect(ratingConsumer.proposeRatingAggregation(MEDIAN, raters, 4))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAggregation");
+
+      // Repeated or zero raters are only caught when the change applies
+      const duplicate = ratingConsumer.proposeRatingAggregation(MIN, [raters[0], raters[0]], 1);
+      await expect(applyConsumerChange(ratingConsumer, duplicate))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAggregation");
+      const zero = ratingConsumer.proposeRatingAggregation(MIN, [ethers.ZeroAddress], 1);
+      await expect(applyConsumerChange(ratingConsumer, zero))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidAggregation");
+    });
+  });
+
+  describe("Rating Listeners", function () {
+    const REVERT = 1;
+    const BURN_GAS = 2;
+    const REVERT_LARGE = 3;
+
+    const deployListeningSystem = async () => {
+      const system = await deployLocalRatingSystem();
+      const consumerAddress = await system.ratingConsumer.getAddress();
+      const listener = await ethers.deployContract("MockRatingListener");
+      const adapter = await ethers.deployContract("RatingListenerAdapter", [consumerAddress]);
+      await system.ratingConsumer.addRatingListener(await listener.getAddress());
+      await system.ratingConsumer.addRatingListener(await adapter.getAddress());
+      return { ...system, listener, adapter };
+    };
+
+    it("Should notify listeners when the effective score changes", async function () {
+      const system = await loadFixture(deployListeningSystem);
+      const { ratingSender, ratingConsumer, relayer, rater, borrower, listener, adapter } = system;
+
+      await deliverRating(system, borrower.address, 85);
+      expect(await listener.callCount()).to.equal(1);
+      expect(await listener.lastBorrower()).to.equal(borrower.address);
+      expect(await listener.lastOldScore()).to.equal(0);
+      expect(await listener.lastNewScore()).to.equal(85);
+      expect(await listener.lastLtv()).to.equal(75);
+
+      // Same score, nothing to report
+      await deliverRating(system, borrower.address, 85);
+      expect(await listener.callCount()).to.equal(1);
+
+      const receipt = await deliverRating(system, borrower.address, 55);
+      await expect(receipt.hash)
+        .to.emit(adapter, "BorrowerDowngraded")
+        .withArgs(borrower.address, 85, 55, 60);
+      expect(await adapter.isDowngraded(borrower.address)).to.be.true;
+      expect(await adapter.borrowerLtv(borrower.address)).to.equal(60);
+
+      const revokeTx = await ratingSender.connect(rater).revokeRating(
+        ARBITRUM_DOMAIN, borrower.address, "fraud", { value: DISPATCH_FEE }
+      );
+      await relayer.relay(await revokeTx.wait());
+      expect(await listener.callCount()).to.equal(3);
+      expect(await listener.lastNewScore()).to.equal(0);
+      expect(await listener.lastLtv()).to.equal(await ratingConsumer.defaultLTV());
+
+      await deliverRating(system, borrower.address, 90);
+      expect(await adapter.isDowngraded(borrower.address)).to.be.false;
+      expect(await adapter.getDowngradedBorrowers()).to.deep.equal([]);
+    });
+
+    it("Should deliver ratings when a listener reverts or runs out of gas", async function () {
+      const system = await loadFixture(deployListeningSystem);
+      const { ratingConsumer, borrower, listener, adapter } = system;
+
+      const reverting = await ethers.deployContract("MockRatingListener");
+      const hungry = await ethers.deployContract("MockRatingListener");
+      await reverting.setMode(REVERT);
+      await hungry.setMode(BURN_GAS);
+      await ratingConsumer.addRatingListener(await reverting.getAddress());
+      await ratingConsumer.addRatingListener(await hungry.getAddress());
+
+      const receipt = await deliverRating(system, borrower.address, 85);
+      await expect(receipt.hash)
+        .to.emit(ratingConsumer, "RatingListenerFailed")
+        .withArgs(await reverting.getAddress(), borrower.address, reverting.interface.encodeErrorResult("ListenerFailed"));
+      await expect(receipt.hash)
+        .to.emit(ratingConsumer, "RatingListenerFailed")
+        .withArgs(await hungry.getAddress(), borrower.address, "0x");
+
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(85);
+      expect(await listener.callCount()).to.equal(1);
+      expect(await adapter.borrowerLtv(borrower.address)).to.equal(75);
+    });
+
+    it("Should only keep the start of a listener's revert data", async function () {
+      const system = await loadFixture(deployListeningSystem);
+      const { ratingConsumer, borrower } = system;
+
+      const noisy = await ethers.deployContract("MockRatingListener");
+      await noisy.setMode(REVERT_LARGE);
+      await ratingConsumer.addRatingListener(await noisy.getAddress());
+
+      const maxLength = Number(await ratingConsumer.MAX_LISTENER_REVERT_DATA());
+      const receipt = await deliverRating(system, borrower.address, 85);
+      await expect(receipt.hash)
+        .to.emit(ratingConsumer, "RatingListenerFailed")
+        .withArgs(await noisy.getAddress(), borrower.address, ethers.hexlify(new Uint8Array(maxLength)));
+      expect((await ratingConsumer.getBorrowerRating(borrower.address)).score).to.equal(85);
+    });
+
+    it("Should cap the listener gas a batch can spend", async function () {
+      const system = await loadFixture(deployListeningSystem);
+      const { ratingSender, ratingConsumer, relayer, rater } = system;
+
+      for (let i = 0; i < 2; i++) {
+        const hungry = await ethers.deployContract("MockRatingListener");
+        await hungry.setMode(BURN_GAS);
+        await ratingConsumer.addRatingListener(await hungry.getAddress());
+      }
+
+      const borrowers = Array.from({ length: 40 }, () => ethers.Wallet.createRandom().address);
+      const tx = await ratingSender.connect(rater).sendRatingBatch(
+        ARBITRUM_DOMAIN, borrowers, borrowers.map(() => 70), { value: DISPATCH_FEE }
+      );
+      const [processReceipt] = await relayer.relay(await tx.wait());
+
+      // Uncapped, the two hungry listeners alone would burn 40 * 2 * LISTENER_GAS_LIMIT
+      const listenerGasLimit = await ratingConsumer.LISTENER_GAS_LIMIT();
+      expect(processReceipt.gasUsed).to.be.lessThan(40n * 2n * listenerGasLimit);
+
+      const events = processReceipt.logs
+        .map((log: any) => ratingConsumer.interface.parseLog(log))
+        .filter((log: any) => log !== null);
+      const failures = events.filter((log: any) => log.name === "RatingListenerFailed");
+      const skipped = events.filter((log: any) => log.name === "RatingListenersSkipped");
+      expect(BigInt(failures.length)).to.be.lessThanOrEqual(
+        (await ratingConsumer.MAX_LISTENER_GAS_PER_MESSAGE()) / listenerGasLimit
+      );
+      expect(skipped.at(-1)!.args).to.deep.equal([borrowers[39], 4n]);
+
+      // Every rating still lands
+      for (const borrower of borrowers) {
+        expect((await ratingConsumer.getBorrowerRating(borrower)).score).to.equal(70);
+      }
+    });
+
+    it("Should let the admin manage listeners", async function () {
+      const system = await loadFixture(deployListeningSystem);
+      const { ratingConsumer, borrower, other, listener, adapter } = system;
+      const listenerAddress = await listener.getAddress();
+
+      expect(await ratingConsumer.getRatingListeners()).to.deep.equal([listenerAddress, await adapter.getAddress()]);
+      await expect(ratingConsumer.connect(other).removeRatingListener(listenerAddress))
+        .to.be.revertedWithCustomError(ratingConsumer, "AccessControlUnauthorizedAccount");
+      await expect(ratingConsumer.addRatingListener(listenerAddress))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidRatingListener")
+        .withArgs(listenerAddress);
+      await expect(ratingConsumer.addRatingListener(other.address))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidRatingListener")
+        .withArgs(other.address);
+
+      await expect(ratingConsumer.removeRatingListener(listenerAddress))
+        .to.emit(ratingConsumer, "RatingListenerRemoved")
+        .withArgs(listenerAddress);
+      await expect(ratingConsumer.removeRatingListener(listenerAddress))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidRatingListener");
+
+      await deliverRating(system, borrower.address, 85);
+      expect(await listener.callCount()).to.equal(0);
+
+      const max = Number(await ratingConsumer.MAX_RATING_LISTENERS());
+      for (let i = 1; i < max; i++) {
+        const extra = await ethers.deployContract("MockRatingListener");
+        await expect(ratingConsumer.addRatingListener(await extra.getAddress()))
+          .to.emit(ratingConsumer, "RatingListenerAdded");
+      }
+      await expect(ratingConsumer.addRatingListener(listenerAddress))
+        .to.be.revertedWithCustomError(ratingConsumer, "InvalidRatingListener");
+    });
+
+    it("Should only take callbacks from its consumer in the reference adapter", async function () {
+      const { adapter, borrower } = await loadFixture(deployListeningSystem);
+
+      await expect(adapter.onRatingUpdated(borrower.address, 85, 40, 40))
+        .to.be.revertedWithCustomError(adapter, "UnauthorizedConsumer");
+      await expect(ethers.deployContract("RatingListenerAdapter", [ethers.ZeroAddress]))
+        .to.be.revertedWithCustomError(adapter, "InvalidAddress");
+    });
+  });
+});
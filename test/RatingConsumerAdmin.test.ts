@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployLocalRatingSystem } from "./helpers/fixtures";
+
+/**
+ * Read a contract's storage layout from its build info, keyed by variable name
+ * @dev Type ids embed AST ids that differ between compilation jobs, so types are
+ * compared by their labels
+ */
+const getStorageLayout = async (sourceName: string, contractName: string) => {
+  const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+  const layout = (buildInfo!.output.contracts[sourceName][contractName] as any).storageLayout;
+  return layout.storage.map((entry: any) => ({
+    label: entry.label,
+    slot: entry.slot,
+    offset: entry.offset,
+    type: layout.types[entry.type].label,
+  }));
+};
+
+describe("RatingConsumerAdmin", function () {
+  it("Should share RatingConsumer's storage layout", async function () {
+    const consumerLayout = await getStorageLayout("contracts/RatingConsumer.sol", "RatingConsumer");
+    const adminLayout = await getStorageLayout("contracts/consumer/RatingConsumerAdmin.sol", "RatingConsumerAdmin");
+
+    expect(consumerLayout.map((entry: any) => entry.label)).to.include.members(["mailbox", "senderExpiries"]);
+    expect(adminLayout).to.deep.equal(consumerLayout);
+  });
+
+  it("Should run forwarded calls against the consumer's storage", async function () {
+    const { ratingConsumer } = await loadFixture(deployLocalRatingSystem);
+
+    await ratingConsumer.setRatingHistoryDepth(32);
+    expect(await ratingConsumer.ratingHistoryDepth()).to.equal(32);
+
+    const adminModule = await ethers.getContractAt("RatingConsumerAdmin", await ratingConsumer.adminModule());
+    expect(await adminModule.ratingHistoryDepth()).to.equal(0);
+  });
+
+  it("Should not be initializable directly", async function () {
+    const { ratingConsumer, other } = await loadFixture(deployLocalRatingSystem);
+
+    const adminModule = await ethers.getContractAt("RatingConsumerAdmin", await ratingConsumer.adminModule());
+    await expect(adminModule.initialize(other.address))
+      .to.be.revertedWithCustomError(adminModule, "InvalidInitialization");
+  });
+});
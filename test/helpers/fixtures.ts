@@ -0,0 +1,171 @@
+import { ContractTransactionResponse } from "ethers";
+import hre, { ethers, network, upgrades } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  MockInterchainSecurityModule,
+  MockMailbox,
+  RatingConsumer,
+  RatingSender,
+} from "../../typechain-types";
+import { prepareImplementation } from "../../tasks/utils";
+import { MockRelayer } from "./relayer";
+
+export const ETHEREUM_DOMAIN = 1;
+export const ARBITRUM_DOMAIN = 42161;
+export const OPTIMISM_DOMAIN = 10;
+export const DISPATCH_FEE = ethers.parseEther("0.001");
+
+/**
+ * Deploy a sender/consumer pair wired through two local MockMailbox instances
+ */
+export const deployLocalRatingSystem = async () => {
+  const [owner, rater, borrower, other] = await ethers.getSigners();
+
+  const MockMailboxFactory = await ethers.getContractFactory("MockMailbox");
+  const originMailbox = await MockMailboxFactory.deploy(ETHEREUM_DOMAIN) as unknown as MockMailbox;
+  const destinationMailbox = await MockMailboxFactory.deploy(ARBITRUM_DOMAIN) as unknown as MockMailbox;
+  await originMailbox.setFee(DISPATCH_FEE);
+
+  const MockIsmFactory = await ethers.getContractFactory("MockInterchainSecurityModule");
+  const defaultIsm = await MockIsmFactory.deploy() as unknown as MockInterchainSecurityModule;
+  await destinationMailbox.setDefaultIsm(await defaultIsm.getAddress());
+  await originMailbox.setDefaultIsm(await defaultIsm.getAddress());
+
+  const RatingSenderFactory = await ethers.getContractFactory("RatingSender");
+  const ratingSender = await upgrades.deployProxy(
+    RatingSenderFactory,
+    [await originMailbox.getAddress()],
+    { initializer: "initialize" }
+  ) as unknown as RatingSender;
+  await ratingSender.waitForDeployment();
+
+  const ratingConsumer = await deployRatingConsumer(destinationMailbox);
+
+  const consumerBytes32 = ethers.zeroPadValue(await ratingConsumer.getAddress(), 32);
+  await ratingSender.setDestinationRecipient(ARBITRUM_DOMAIN, consumerBytes32);
+
+  const senderBytes32 = ethers.zeroPadValue(await ratingSender.getAddress(), 32);
+  await applyConsumerChange(ratingConsumer, ratingConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, senderBytes32, 0));
+
+  await ratingSender.authorizeRater(rater.address);
+
+  const relayer = new MockRelayer({
+    [ETHEREUM_DOMAIN]: originMailbox,
+    [ARBITRUM_DOMAIN]: destinationMailbox,
+  });
+
+  return {
+    owner,
+    rater,
+    borrower,
+    other,
+    originMailbox,
+    destinationMailbox,
+    defaultIsm,
+    ratingSender,
+    ratingConsumer,
+    relayer,
+    senderBytes32,
+    consumerBytes32,
+  };
+};
+
+/**
+ * Add an Optimism consumer to the local system so ratings fan out to two destinations
+ */
+export const deployMultiDestinationRatingSystem = async () => {
+  const system = await deployLocalRatingSystem();
+
+  const MockMailboxFactory = await ethers.getContractFactory("MockMailbox");
+  const optimismMailbox = await MockMailboxFactory.deploy(OPTIMISM_DOMAIN) as unknown as MockMailbox;
+  await optimismMailbox.setDefaultIsm(await system.defaultIsm.getAddress());
+
+  const optimismConsumer = await deployRatingConsumer(optimismMailbox);
+  await system.ratingSender.setDestinationRecipient(
+    OPTIMISM_DOMAIN,
+    ethers.zeroPadValue(await optimismConsumer.getAddress(), 32)
+  );
+  await applyConsumerChange(
+    optimismConsumer,
+    optimismConsumer.proposeAddAuthorizedSender(ETHEREUM_DOMAIN, system.senderBytes32, 0)
+  );
+
+  const relayer = new MockRelayer({
+    [ETHEREUM_DOMAIN]: system.originMailbox,
+    [ARBITRUM_DOMAIN]: system.destinationMailbox,
+    [OPTIMISM_DOMAIN]: optimismMailbox,
+  });
+
+  return { ...system, relayer, optimismMailbox, optimismConsumer };
+};
+
+const deployRatingConsumer = async (mailbox: MockMailbox): Promise<RatingConsumer> => {
+  const { factory, constructorArgs } = await prepareImplementation(hre, "RatingConsumer");
+  const ratingConsumer = await upgrades.deployProxy(
+    factory,
+    [await mailbox.getAddress()],
+    { initializer: "initialize", constructorArgs, unsafeAllowLinkedLibraries: true }
+  ) as unknown as RatingConsumer;
+  await ratingConsumer.waitForDeployment();
+  await clearChangeDelay(ratingConsumer);
+  return ratingConsumer;
+};
+
+/**
+ * Wait out the default change delay once to set it to zero, so later changes apply at once
+ */
+export const clearChangeDelay = async (ratingConsumer: RatingConsumer) => {
+  const receipt = await (await ratingConsumer.proposeChangeDelay(0)).wait();
+  const proposed = receipt!.logs
+    .map((log) => ratingConsumer.interface.parseLog(log))
+    .find((log) => log?.name === "ChangeProposed");
+  await time.increase(await ratingConsumer.changeDelay());
+  await ratingConsumer.executeChange(proposed!.args.id);
+};
+
+/**
+ * Execute a timelocked RatingConsumer change right after proposing it
+ * @dev Only works while changeDelay is zero, as it is after deployRatingConsumer
+ */
+export const applyConsumerChange = async (
+  ratingConsumer: RatingConsumer,
+  proposal: Promise<ContractTransactionResponse>
+) => {
+  const receipt = await (await proposal).wait();
+  const proposed = receipt!.logs
+    .map((log) => ratingConsumer.interface.parseLog(log))
+    .find((log) => log?.name === "ChangeProposed");
+  return ratingConsumer.executeChange(proposed!.args.id);
+};
+
+/**
+ * Impersonate a mailbox so tests can call `handle` with hand-crafted bodies
+ */
+export const impersonateMailbox = async (mailbox: MockMailbox): Promise<SignerWithAddress> => {
+  const mailboxAddress = await mailbox.getAddress();
+  await network.provider.request({ method: "hardhat_impersonateAccount", params: [mailboxAddress] });
+  await network.provider.send("hardhat_setBalance", [mailboxAddress, "0xDE0B6B3A7640000"]);
+  return ethers.getSigner(mailboxAddress);
+};
+
+type LocalRatingSystem = Awaited<ReturnType<typeof deployLocalRatingSystem>>;
+
+/**
+ * Send a rating from an authorized rater (the fixture rater by default) and relay it to the consumer
+ */
+export const deliverRating = async (
+  system: LocalRatingSystem,
+  borrower: string,
+  score: number,
+  rater = system.rater
+) => {
+  const tx = await system.ratingSender.connect(rater).sendRating(
+    ARBITRUM_DOMAIN,
+    borrower,
+    score,
+    { value: DISPATCH_FEE }
+  );
+  const [receipt] = await system.relayer.relay(await tx.wait());
+  return receipt;
+};
@@ -0,0 +1,131 @@
+import { ethers } from "hardhat";
+import { ContractTransactionReceipt } from "ethers";
+import { MockMailbox } from "../../typechain-types";
+
+/**
+ * Decoded Hyperlane v3 message as emitted by `MockMailbox.Dispatch`
+ */
+export interface DispatchedMessage {
+  id: string;
+  message: string;
+  version: number;
+  nonce: number;
+  origin: number;
+  sender: string;
+  destination: number;
+  recipient: string;
+  body: string;
+}
+
+export interface RelayOptions {
+  metadata?: string;
+  value?: bigint;
+}
+
+/**
+ * Split a raw Hyperlane message into its header fields and body
+ * @param message Hex encoded message bytes
+ */
+export const decodeHyperlaneMessage = (message: string): DispatchedMessage => {
+  return {
+    id: ethers.keccak256(message),
+    message,
+    version: Number(ethers.dataSlice(message, 0, 1)),
+    nonce: Number(ethers.dataSlice(message, 1, 5)),
+    origin: Number(ethers.dataSlice(message, 5, 9)),
+    sender: ethers.dataSlice(message, 9, 41),
+    destination: Number(ethers.dataSlice(message, 41, 45)),
+    recipient: ethers.dataSlice(message, 45, 77),
+    body: ethers.dataSlice(message, 77),
+  };
+};
+
+/**
+ * Off-chain relayer that forwards messages between MockMailbox instances
+ * registered by domain, the same way a Hyperlane relayer would between chains.
+ */
+export class MockRelayer {
+  private mailboxes: Map<number, MockMailbox>;
+
+  /**
+   * @param mailboxes Mailboxes keyed by the domain they simulate
+   */
+  constructor(mailboxes: { [domain: number]: MockMailbox }) {
+    this.mailboxes = new Map(
+      Object.entries(mailboxes).map(([domain, mailbox]) => [Number(domain), mailbox])
+    );
+  }
+
+  /**
+   * Extract every message dispatched by a registered mailbox in a transaction
+   */
+  async getDispatchedMessages(receipt: ContractTransactionReceipt | null): Promise<DispatchedMessage[]> {
+    if (!receipt) return [];
+
+    const messages: DispatchedMessage[] = [];
+    for (const mailbox of this.mailboxes.values()) {
+      const mailboxAddress = (await mailbox.getAddress()).toLowerCase();
+
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== mailboxAddress) continue;
+
+        const parsed = mailbox.interface.parseLog(log as any);
+        if (parsed?.name === "Dispatch") {
+          messages.push(decodeHyperlaneMessage(parsed.args.message));
+        }
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Deliver a single message on its destination mailbox
+   */
+  async deliver(message: DispatchedMessage, options: RelayOptions = {}): Promise<ContractTransactionReceipt> {
+    const destination = this.mailboxes.get(message.destination);
+    if (!destination) {
+      throw new Error(`No mailbox registered for destination domain ${message.destination}`);
+    }
+
+    const tx = await destination.process(options.metadata ?? "0x", message.message, {
+      value: options.value ?? 0n,
+    });
+    const receipt = await tx.wait();
+    return receipt!;
+  }
+
+  /**
+   * Deliver every message dispatched in a transaction
+   */
+  async relay(
+    receipt: ContractTransactionReceipt | null,
+    options: RelayOptions = {}
+  ): Promise<ContractTransactionReceipt[]> {
+    const messages = await this.getDispatchedMessages(receipt);
+    const receipts: ContractTransactionReceipt[] = [];
+    for (const message of messages) {
+      receipts.push(await this.deliver(message, options));
+    }
+    return receipts;
+  }
+
+  /**
+   * Scan all registered mailboxes and deliver any message not yet processed
+   */
+  async relayPending(options: RelayOptions = {}): Promise<ContractTransactionReceipt[]> {
+    const receipts: ContractTransactionReceipt[] = [];
+
+    for (const origin of this.mailboxes.values()) {
+      const events = await origin.queryFilter(origin.filters.Dispatch());
+
+      for (const event of events) {
+        const message = decodeHyperlaneMessage(event.args.message);
+        const destination = this.mailboxes.get(message.destination);
+        if (!destination || (await destination.delivered(message.id))) continue;
+
+        receipts.push(await this.deliver(message, options));
+      }
+    }
+    return receipts;
+  }
+}